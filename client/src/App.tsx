@@ -9,6 +9,9 @@ import { ProtectedRoute } from "./lib/protected-route";
 import HomePage from "@/pages/home-page";
 import AdminDashboard from "@/pages/admin-dashboard";
 import AuthPage from "@/pages/auth-page";
+import InvitePage from "@/pages/invite-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import TwoFactorSetupPage from "@/pages/two-factor-setup-page";
 import NotFound from "@/pages/not-found";
 
 function NotificationWrapper({ children }: { children: React.ReactNode }) {
@@ -20,9 +23,12 @@ function Router() {
   return (
     <Switch>
       <ProtectedRoute path="/" component={HomePage} />
-      <ProtectedRoute path="/admin" component={AdminDashboard} adminOnly />
+      <ProtectedRoute path="/admin" component={AdminDashboard} staffOnly />
+      <ProtectedRoute path="/two-factor" component={TwoFactorSetupPage} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/admin/login" component={AuthPage} />
+      <Route path="/invite/:token" component={InvitePage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
       <Route component={NotFound} />
     </Switch>
   );
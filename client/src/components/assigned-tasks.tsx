@@ -28,11 +28,15 @@ interface Task {
   proofFile?: string;
   completedAt?: string;
   rejectionReason?: string;
+  latePolicy: "allow_late" | "expire";
+  latePenaltyPercent: number;
+  completedLate: boolean;
 }
 
 function TaskCard({ task }: { task: Task }) {
   const deadline = new Date(task.deadline);
-  const isOverdue = deadline < new Date() && task.status !== "completed" && task.status !== "approved";
+  // The server moves tasks to overdue/expired once their deadline passes
+  const isOverdue = task.status === "overdue" || task.status === "expired";
   const timeLeft = deadline.getTime() - new Date().getTime();
   const daysLeft = Math.ceil(timeLeft / (1000 * 60 * 60 * 24));
 
@@ -40,6 +44,8 @@ function TaskCard({ task }: { task: Task }) {
     switch (status) {
       case "assigned": return "bg-blue-100 text-blue-800";
       case "in_progress": return "bg-yellow-100 text-yellow-800";
+      case "overdue": return "bg-amber-100 text-amber-800";
+      case "expired": return "bg-gray-200 text-gray-700";
       case "completed": return "bg-purple-100 text-purple-800";
       case "approved": return "bg-green-100 text-green-800";
       case "rejected": return "bg-red-100 text-red-800";
@@ -102,11 +108,19 @@ function TaskCard({ task }: { task: Task }) {
           {isOverdue && (
             <div className="flex items-center space-x-1">
               <AlertTriangle className="w-4 h-4 text-red-500" />
-              <span className="text-red-600 font-medium">Overdue</span>
+              <span className="text-red-600 font-medium">{task.status === "expired" ? "Expired" : "Overdue"}</span>
             </div>
           )}
         </div>
 
+        {task.status === "overdue" && task.latePenaltyPercent > 0 && (
+          <div className="bg-amber-50 p-3 rounded-lg">
+            <span className="text-sm text-amber-700">
+              You can still complete this task, but late completion costs {task.latePenaltyPercent}% of its points
+            </span>
+          </div>
+        )}
+
         {task.status === "approved" && (
           <div className="bg-green-50 p-3 rounded-lg">
             <div className="flex items-center space-x-2">
@@ -153,13 +167,13 @@ export default function AssignedTasks() {
   }
 
   const activeTasks = assignedTasks.filter(task => 
-    ["assigned", "in_progress"].includes(task.status)
+    ["assigned", "in_progress", "overdue"].includes(task.status)
   );
   const completedTasks = assignedTasks.filter(task => 
     task.status === "approved"
   );
   const rejectedTasks = assignedTasks.filter(task => 
-    task.status === "rejected"
+    task.status === "rejected" || task.status === "expired"
   );
 
   return (
@@ -214,7 +228,7 @@ export default function AssignedTasks() {
             <div>
               <h3 className="text-lg font-semibold mb-4 flex items-center">
                 <AlertTriangle className="w-5 h-5 mr-2 text-red-600" />
-                Rejected Tasks ({rejectedTasks.length})
+                Rejected & Expired Tasks ({rejectedTasks.length})
               </h3>
               <div className="space-y-4">
                 {rejectedTasks.map((task) => (
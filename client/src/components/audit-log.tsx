@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AUDIT_ACTIONS, type AuditEventWithActor, type UserSummary } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+
+const PAGE_SIZE = 50;
+
+function formatSnapshot(snapshot: unknown) {
+  if (!snapshot || typeof snapshot !== "object") return null;
+  const entries = Object.entries(snapshot);
+  if (entries.length === 0) return null;
+  return entries.map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(", ");
+}
+
+export default function AuditLog() {
+  const [actorId, setActorId] = useState("all");
+  const [action, setAction] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const { data: users = [] } = useQuery<UserSummary[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const filters = new URLSearchParams();
+  if (actorId !== "all") filters.set("actorId", actorId);
+  if (action !== "all") filters.set("action", action);
+  if (from) filters.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) filters.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+
+  const params = new URLSearchParams(filters);
+  params.set("limit", PAGE_SIZE.toString());
+  params.set("offset", (page * PAGE_SIZE).toString());
+
+  const { data: events = [], isLoading } = useQuery<AuditEventWithActor[]>({
+    queryKey: ["/api/admin/audit", params.toString()],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/audit?${params.toString()}`);
+      return await res.json();
+    },
+  });
+
+  // Any filter change starts again from the newest events
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Audit Log</CardTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Who changed what, and when
+          </p>
+        </div>
+        <Button variant="outline" size="sm" asChild data-testid="button-export-audit">
+          <a href={`/api/admin/audit/export?${filters.toString()}`} download>
+            <i className="fas fa-download mr-2"></i>
+            Export CSV
+          </a>
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Select value={actorId} onValueChange={updateFilter(setActorId)}>
+            <SelectTrigger className="w-[180px]" data-testid="select-audit-actor">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everyone</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>{user.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={action} onValueChange={updateFilter(setAction)}>
+            <SelectTrigger className="w-[220px]" data-testid="select-audit-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {AUDIT_ACTIONS.map((auditAction) => (
+                <SelectItem key={auditAction} value={auditAction}>{auditAction}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={from}
+            onChange={(e) => updateFilter(setFrom)(e.target.value)}
+            className="w-[160px]"
+            data-testid="input-audit-from"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <Input
+            type="date"
+            value={to}
+            onChange={(e) => updateFilter(setTo)(e.target.value)}
+            className="w-[160px]"
+            data-testid="input-audit-to"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse h-10 bg-gray-200 rounded-lg"></div>
+            ))}
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-clipboard-list text-4xl mb-4 text-gray-300"></i>
+            <p>No audit events match these filters</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Time</th>
+                  <th className="py-2 pr-4 font-medium">Actor</th>
+                  <th className="py-2 pr-4 font-medium">Action</th>
+                  <th className="py-2 pr-4 font-medium">Target</th>
+                  <th className="py-2 font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => {
+                  const before = formatSnapshot(event.before);
+                  const after = formatSnapshot(event.after);
+                  return (
+                    <tr key={event.id} className="border-b border-gray-100 align-top" data-testid={`audit-event-${event.id}`}>
+                      <td className="py-2 pr-4 whitespace-nowrap text-gray-600">
+                        {format(new Date(event.createdAt), "MMM dd, yyyy HH:mm")}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <div className="text-gray-900">{event.actorUsername ?? "Anonymous"}</div>
+                        {event.ip && <div className="text-xs text-gray-500">{event.ip}</div>}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge variant="outline">{event.action}</Badge>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-600">
+                        {event.targetType ? `${event.targetType.replace(/_/g, " ")} ${event.targetId ?? ""}` : "-"}
+                      </td>
+                      <td className="py-2 text-xs text-gray-600 break-all">
+                        {before && <div className="text-red-600">- {before}</div>}
+                        {after && <div className="text-green-600">+ {after}</div>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            data-testid="button-audit-newer"
+          >
+            Newer
+          </Button>
+          <span className="text-sm text-gray-500">Page {page + 1}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={events.length < PAGE_SIZE}
+            data-testid="button-audit-older"
+          >
+            Older
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  insertChatIntegrationSchema,
+  CHAT_EVENTS,
+  type ChatEvent,
+  type ChatIntegration,
+  type InsertChatIntegration,
+  type UpdateChatIntegration,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { Plus } from "lucide-react";
+
+const chatEventLabels: Record<ChatEvent, string> = {
+  "task.submitted": "New submissions",
+  "task.approved": "Approvals",
+  "leaderboard.daily": "Daily leaderboard",
+};
+
+const platformLabels: Record<ChatIntegration["platform"], string> = {
+  slack: "Slack",
+  discord: "Discord",
+};
+
+function ChatIntegrationForm() {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<InsertChatIntegration>({
+    resolver: zodResolver(insertChatIntegrationSchema),
+    defaultValues: {
+      name: "",
+      platform: "slack",
+      url: "",
+      events: [...CHAT_EVENTS],
+    },
+  });
+
+  const createIntegrationMutation = useMutation({
+    mutationFn: async (data: InsertChatIntegration) => {
+      const res = await apiRequest("POST", "/api/admin/chat-integrations", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/chat-integrations"] });
+      toast({
+        title: "Integration Added",
+        description: "Send a test message to check it's working.",
+      });
+      form.reset();
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Add Integration",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" data-testid="button-add-chat-integration">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Channel
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Chat Channel</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createIntegrationMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. #reviews" data-testid="input-chat-integration-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="platform"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Platform</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-chat-platform">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="slack">Slack</SelectItem>
+                      <SelectItem value="discord">Discord</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Incoming Webhook URL</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="https://hooks.slack.com/services/..." data-testid="input-chat-integration-url" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="events"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Post</FormLabel>
+                  <div className="space-y-2">
+                    {CHAT_EVENTS.map((event) => (
+                      <label key={event} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(event)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(checked ? [...field.value, event] : field.value.filter((e) => e !== event))
+                          }
+                          data-testid={`checkbox-chat-event-${event}`}
+                        />
+                        <span>{chatEventLabels[event]}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={createIntegrationMutation.isPending} data-testid="button-submit-chat-integration">
+              {createIntegrationMutation.isPending ? "Adding..." : "Add Channel"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ChatIntegrationManagement({ readOnly = false }: { readOnly?: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: integrations = [] } = useQuery<ChatIntegration[]>({
+    queryKey: ["/api/admin/chat-integrations"],
+  });
+
+  const updateIntegrationMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: UpdateChatIntegration & { id: string }) => {
+      const res = await apiRequest("PATCH", `/api/admin/chat-integrations/${id}`, updates);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/chat-integrations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Update Integration",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteIntegrationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/chat-integrations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/chat-integrations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Delete Integration",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testIntegrationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/chat-integrations/${id}/test`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/chat-integrations"] });
+      toast({
+        title: "Test Message Sent",
+        description: "Check the channel for the current leaderboard.",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/chat-integrations"] });
+      toast({
+        title: "Test Message Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEvent = (integration: ChatIntegration, event: ChatEvent, enabled: boolean) => {
+    const current = integration.events as ChatEvent[];
+    const events = enabled ? [...current, event] : current.filter((e) => e !== event);
+    if (events.length === 0) {
+      toast({
+        title: "Keep at least one event",
+        description: "Turn the integration off instead to stop all messages.",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateIntegrationMutation.mutate({ id: integration.id, events });
+  };
+
+  const handleDelete = (integration: ChatIntegration) => {
+    if (window.confirm(`Stop posting to "${integration.name}"?`)) {
+      deleteIntegrationMutation.mutate(integration.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Chat Channels</CardTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Post submissions, approvals and a daily leaderboard to Slack or Discord
+          </p>
+        </div>
+        {!readOnly && <ChatIntegrationForm />}
+      </CardHeader>
+
+      <CardContent>
+        {integrations.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-comments text-4xl mb-4 text-gray-300"></i>
+            <p>No chat channels connected</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {integrations.map((integration) => (
+              <div key={integration.id} className="p-3 border border-gray-200 rounded-lg" data-testid={`chat-integration-${integration.id}`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{integration.name}</span>
+                      <Badge variant="outline">{platformLabels[integration.platform]}</Badge>
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {integration.lastPostedAt
+                        ? `Last posted ${formatDistanceToNow(new Date(integration.lastPostedAt), { addSuffix: true })}`
+                        : "Nothing posted yet"}
+                    </div>
+                    {integration.lastError && (
+                      <div className="text-xs text-red-600 mt-1">Last attempt failed: {integration.lastError}</div>
+                    )}
+                  </div>
+                  <Switch
+                    checked={integration.active}
+                    onCheckedChange={(active) => updateIntegrationMutation.mutate({ id: integration.id, active })}
+                    disabled={readOnly}
+                    data-testid={`switch-chat-integration-active-${integration.id}`}
+                  />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 mt-3">
+                  {CHAT_EVENTS.map((event) => (
+                    <label key={event} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={integration.events.includes(event)}
+                        onCheckedChange={(checked) => toggleEvent(integration, event, checked === true)}
+                        disabled={readOnly || updateIntegrationMutation.isPending}
+                        data-testid={`checkbox-chat-integration-${integration.id}-${event}`}
+                      />
+                      <span>{chatEventLabels[event]}</span>
+                    </label>
+                  ))}
+                </div>
+
+                {!readOnly && (
+                <div className="flex items-center space-x-2 mt-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => testIntegrationMutation.mutate(integration.id)}
+                    disabled={testIntegrationMutation.isPending}
+                    data-testid={`button-test-chat-integration-${integration.id}`}
+                  >
+                    Send Test Message
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                    onClick={() => handleDelete(integration)}
+                    disabled={deleteIntegrationMutation.isPending}
+                    data-testid={`button-delete-chat-integration-${integration.id}`}
+                  >
+                    Delete
+                  </Button>
+                </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { type User } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export default function EmailSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState(user?.email ?? "");
+
+  // The confirmation link redirects back here with the outcome
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const verified = params.get("emailVerified");
+    if (verified === null) return;
+
+    toast(verified === "1"
+      ? { title: "Email Confirmed", description: "You'll now receive notifications by email." }
+      : { title: "Confirmation Failed", description: "That link is invalid or has expired.", variant: "destructive" });
+
+    params.delete("emailVerified");
+    const query = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+  }, [toast]);
+
+  const updateEmailMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/user/email", { email });
+      return await res.json();
+    },
+    onSuccess: (updated: User) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      toast({
+        title: "Check Your Inbox",
+        description: `We sent a confirmation link to ${updated.email}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Update Email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/user/email/resend");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Confirmation Sent",
+        description: `We sent a new confirmation link to ${user?.email}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Resend",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unchanged = email.trim().toLowerCase() === (user?.email ?? "");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <CardTitle>Email Notifications</CardTitle>
+          {user?.email && (
+            user.emailVerifiedAt ? (
+              <Badge className="bg-green-100 text-green-800" data-testid="badge-email-verified">Verified</Badge>
+            ) : (
+              <Badge className="bg-yellow-100 text-yellow-800" data-testid="badge-email-unverified">Unconfirmed</Badge>
+            )
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          Get task assignments, review decisions and deadline reminders by email
+        </p>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        <div className="flex items-center space-x-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@example.com"
+            data-testid="input-email"
+          />
+          <Button
+            onClick={() => updateEmailMutation.mutate()}
+            disabled={!email.trim() || unchanged || updateEmailMutation.isPending}
+            data-testid="button-save-email"
+          >
+            Save
+          </Button>
+        </div>
+
+        {user?.email && !user.emailVerifiedAt && (
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>Confirm {user.email} using the link we emailed you.</span>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => resendMutation.mutate()}
+              disabled={resendMutation.isPending}
+              data-testid="button-resend-confirmation"
+            >
+              Resend link
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  insertInvitationSchema,
+  invitationStatus,
+  type InsertInvitation,
+  type Invitation,
+  type InvitationStatus,
+  type InvitationWithUsers,
+} from "@shared/schema";
+import { ROLES, type UserRole } from "@shared/permissions";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, formatDistanceToNow } from "date-fns";
+import { Plus } from "lucide-react";
+
+type CreatedInvitation = Invitation & { url: string };
+
+const invitationStatusColors: Record<InvitationStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  used: "bg-green-100 text-green-800",
+  revoked: "bg-gray-100 text-gray-700",
+  expired: "bg-red-100 text-red-800",
+};
+
+const roleOrder = Object.keys(ROLES) as UserRole[];
+
+function InvitationLinkDialog({ invitation, onClose }: { invitation: CreatedInvitation | null; onClose: () => void }) {
+  return (
+    <Dialog open={!!invitation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invitation Link</DialogTitle>
+          <DialogDescription>
+            Copy this link now - it won't be shown again. It can be used once, before {invitation && format(new Date(invitation.expiresAt), "MMM dd, yyyy")}.
+          </DialogDescription>
+        </DialogHeader>
+        <Input readOnly value={invitation?.url ?? ""} onFocus={(e) => e.target.select()} data-testid="input-invitation-link" />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function InvitationForm({ onCreated }: { onCreated: (invitation: CreatedInvitation) => void }) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<InsertInvitation>({
+    resolver: zodResolver(insertInvitationSchema),
+    defaultValues: {
+      role: "admin",
+      note: "",
+      expiresInDays: 7,
+    },
+  });
+
+  const createInvitationMutation = useMutation({
+    mutationFn: async (data: InsertInvitation) => {
+      const res = await apiRequest("POST", "/api/admin/invitations", data);
+      return await res.json();
+    },
+    onSuccess: (invitation: CreatedInvitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invitations"] });
+      form.reset();
+      setOpen(false);
+      onCreated(invitation);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create Invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" data-testid="button-create-invitation">
+          <Plus className="w-4 h-4 mr-2" />
+          Invite
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Invitation</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createInvitationMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-invitation-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {roleOrder.map((role) => (
+                        <SelectItem key={role} value={role}>{ROLES[role].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>For</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} placeholder="e.g. Jane from support" data-testid="input-invitation-note" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expiresInDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expires After (days)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="30"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      data-testid="input-invitation-expiry"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={createInvitationMutation.isPending} data-testid="button-submit-invitation">
+              {createInvitationMutation.isPending ? "Creating..." : "Create Invitation Link"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function InviteManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [created, setCreated] = useState<CreatedInvitation | null>(null);
+
+  const { data: invitations = [] } = useQuery<InvitationWithUsers[]>({
+    queryKey: ["/api/admin/invitations"],
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/invitations/${id}/revoke`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invitations"] });
+      toast({
+        title: "Invitation Revoked",
+        description: "The link can no longer be used.",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invitations"] });
+      toast({
+        title: "Failed to Revoke Invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Invitations</CardTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Single-use sign-up links that grant a role
+          </p>
+        </div>
+        <InvitationForm onCreated={setCreated} />
+      </CardHeader>
+
+      <CardContent>
+        {invitations.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-envelope-open-text text-4xl mb-4 text-gray-300"></i>
+            <p>No invitations yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {invitations.map((invitation) => {
+              const status = invitationStatus(invitation);
+              return (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+                  data-testid={`invitation-${invitation.id}`}
+                >
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{ROLES[invitation.role].label}</span>
+                      {invitation.note && <span className="text-sm text-gray-600">· {invitation.note}</span>}
+                      <Badge className={invitationStatusColors[status]}>{status}</Badge>
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      By {invitation.createdByUsername} {formatDistanceToNow(new Date(invitation.createdAt), { addSuffix: true })}
+                      {status === "used" && invitation.usedByUsername && ` · accepted by ${invitation.usedByUsername}`}
+                      {status === "pending" && ` · expires ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                  {status === "pending" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 border-red-300 hover:bg-red-50"
+                      onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                      disabled={revokeInvitationMutation.isPending}
+                      data-testid={`button-revoke-invitation-${invitation.id}`}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <InvitationLinkDialog invitation={created} onClose={() => setCreated(null)} />
+    </Card>
+  );
+}
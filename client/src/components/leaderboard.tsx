@@ -1,17 +1,94 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { type User } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BadgeIcons } from "@/components/user-badges";
+import { type LeaderboardEntry, type Season } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+type Period = "week" | "month" | "season" | "all" | "custom";
+
+const periodDescriptions: Record<Period, string> = {
+  season: "Standings for the current season",
+  week: "Top performers this week",
+  month: "Top performers this month",
+  all: "Top performers of all time",
+  custom: "Top performers in the selected range",
+};
 
 export default function Leaderboard() {
-  const { data: leaderboard = [], isLoading } = useQuery<User[]>({
-    queryKey: ["/api/leaderboard"],
+  const [selectedPeriod, setPeriod] = useState<Period | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data: seasons = [] } = useQuery<Season[]>({
+    queryKey: ["/api/seasons"],
   });
 
+  // Show the running season by default, if there is one
+  const activeSeason = seasons.find((season) => !season.closedAt && new Date(season.startsAt) <= new Date());
+  const period = selectedPeriod ?? (activeSeason ? "season" : "month");
+
+  const params = new URLSearchParams();
+  if (period === "custom") {
+    if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  } else {
+    params.set("period", period);
+  }
+
+  const { data: leaderboard = [], isLoading } = useQuery<LeaderboardEntry[]>({
+    queryKey: ["/api/leaderboard", params.toString()],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/leaderboard?${params.toString()}`);
+      return await res.json();
+    },
+  });
+
+  const periodSwitcher = (
+    <div className="flex items-center space-x-2">
+      {period === "custom" && (
+        <>
+          <Input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-[150px]"
+            data-testid="input-leaderboard-from"
+          />
+          <Input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-[150px]"
+            data-testid="input-leaderboard-to"
+          />
+        </>
+      )}
+      <Select value={period} onValueChange={(value: Period) => setPeriod(value)}>
+        <SelectTrigger className="w-[160px]" data-testid="select-leaderboard-period">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {activeSeason && (
+            <SelectItem value="season">{activeSeason.name}</SelectItem>
+          )}
+          <SelectItem value="week">This Week</SelectItem>
+          <SelectItem value="month">This Month</SelectItem>
+          <SelectItem value="all">All Time</SelectItem>
+          <SelectItem value="custom">Custom Range</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   if (isLoading) {
     return (
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Leaderboard</CardTitle>
+          {periodSwitcher}
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
@@ -60,16 +137,19 @@ export default function Leaderboard() {
 
   return (
     <Card>
-      <CardHeader>
-        <CardTitle>Leaderboard</CardTitle>
-        <p className="text-sm text-gray-600 mt-1">Top performers this month</p>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Leaderboard</CardTitle>
+          <p className="text-sm text-gray-600 mt-1">{periodDescriptions[period]}</p>
+        </div>
+        {periodSwitcher}
       </CardHeader>
       
       <CardContent>
         {leaderboard.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <i className="fas fa-trophy text-4xl mb-4 text-gray-300"></i>
-            <p>No users on the leaderboard yet</p>
+            <p>{period === "all" ? "No users on the leaderboard yet" : "No approved tasks in this period"}</p>
             <p className="text-sm">Be the first to earn points!</p>
           </div>
         ) : (
@@ -91,8 +171,11 @@ export default function Leaderboard() {
                 </div>
                 
                 <div className="flex-1">
-                  <div className="font-medium text-gray-900" data-testid={`leaderboard-username-${index + 1}`}>
-                    {user.username}
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900" data-testid={`leaderboard-username-${index + 1}`}>
+                      {user.username}
+                    </span>
+                    <BadgeIcons badgeIds={user.badges} />
                   </div>
                   <div className="text-sm text-gray-600">
                     User since {new Date(user.createdAt).toLocaleDateString()}
@@ -101,7 +184,7 @@ export default function Leaderboard() {
                 
                 <div className="text-right">
                   <div className="font-bold text-gray-900 text-lg" data-testid={`leaderboard-points-${index + 1}`}>
-                    {user.totalPoints.toLocaleString()}
+                    {user.points.toLocaleString()}
                   </div>
                   <div className="text-sm text-gray-600">points</div>
                 </div>
@@ -0,0 +1,101 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { type NotificationInbox } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+
+export default function NotificationBell() {
+  const queryClient = useQueryClient();
+
+  const { data: inbox } = useQuery<NotificationInbox>({
+    queryKey: ["/api/notifications"],
+  });
+
+  const notifications = inbox?.notifications ?? [];
+  const unreadCount = inbox?.unreadCount ?? 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("PATCH", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center"
+              data-testid="badge-unread-count"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="font-semibold text-gray-900">Notifications</span>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={() => markAllReadMutation.mutate()}
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+            data-testid="button-mark-all-read"
+          >
+            Mark all as read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-bell-slash text-3xl mb-3 text-gray-300"></i>
+            <p className="text-sm">You're all caught up</p>
+          </div>
+        ) : (
+          <ScrollArea className="h-80">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-gray-50 ${notification.readAt ? "" : "bg-blue-50/50"}`}
+                onClick={() => !notification.readAt && markReadMutation.mutate(notification.id)}
+                data-testid={`notification-${notification.id}`}
+              >
+                <div className="flex items-start space-x-2">
+                  {!notification.readAt && (
+                    <span className="mt-1.5 w-2 h-2 rounded-full bg-primary flex-shrink-0"></span>
+                  )}
+                  <div className="flex-1">
+                    <div className="text-sm font-medium text-gray-900">{notification.title}</div>
+                    <div className="text-sm text-gray-600">{notification.message}</div>
+                    <div className="text-xs text-gray-400 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </div>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
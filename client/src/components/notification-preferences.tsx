@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { type NotificationPreference } from "@shared/schema";
+import { NOTIFICATION_EVENTS } from "@shared/protocol";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type Channel = "toast" | "inbox" | "email";
+
+const channels: { key: Channel; label: string }[] = [
+  { key: "toast", label: "Pop-up" },
+  { key: "inbox", label: "Inbox" },
+  { key: "email", label: "Email" },
+];
+
+interface NotificationPreferencesProps {
+  // Edit the admin defaults for new accounts instead of your own preferences
+  defaults?: boolean;
+  readOnly?: boolean;
+}
+
+export default function NotificationPreferences({ defaults = false, readOnly = false }: NotificationPreferencesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const endpoint = defaults ? "/api/admin/notifications/defaults" : "/api/notifications/preferences";
+  const [draft, setDraft] = useState<NotificationPreference[]>([]);
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreference[]>({
+    queryKey: [endpoint],
+  });
+
+  // Start editing from the saved preferences whenever they (re)load
+  useEffect(() => {
+    if (preferences) {
+      setDraft(preferences);
+    }
+  }, [preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", endpoint, draft);
+      return await res.json();
+    },
+    onSuccess: (saved: NotificationPreference[]) => {
+      queryClient.setQueryData([endpoint], saved);
+      toast({
+        title: defaults ? "Defaults Saved" : "Preferences Saved",
+        description: defaults
+          ? "New accounts will start with these notification settings."
+          : "Your notification settings have been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Save",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (eventType: NotificationPreference["eventType"], channel: Channel, enabled: boolean) => {
+    setDraft((current) =>
+      current.map((preference) =>
+        preference.eventType === eventType ? { ...preference, [channel]: enabled } : preference
+      )
+    );
+  };
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(preferences ?? []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{defaults ? "Default Notification Settings" : "Notification Preferences"}</CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          {defaults
+            ? "Channels new accounts start with for each kind of notification"
+            : "Choose how you hear about each kind of event - turn every channel off to mute it"}
+        </p>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="animate-pulse h-10 bg-gray-200 rounded-lg"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] items-center gap-y-3 text-sm">
+              <span className="font-medium text-gray-500">Event</span>
+              {channels.map((channel) => (
+                <span key={channel.key} className="font-medium text-gray-500 text-center">{channel.label}</span>
+              ))}
+
+              {draft.map((preference) => {
+                const event = NOTIFICATION_EVENTS[preference.eventType];
+                const muted = !preference.toast && !preference.inbox && !preference.email;
+                return (
+                  <div key={preference.eventType} className="contents" data-testid={`preference-${preference.eventType}`}>
+                    <span className={muted ? "text-gray-400" : "text-gray-900"}>
+                      {event.label}
+                      {muted && <span className="ml-2 text-xs">(off)</span>}
+                    </span>
+                    {channels.map((channel) => (
+                      <div key={channel.key} className="flex justify-center">
+                        <Switch
+                          checked={preference[channel.key]}
+                          onCheckedChange={(checked) => toggle(preference.eventType, channel.key, checked)}
+                          disabled={readOnly || (channel.key === "email" && !event.email)}
+                          data-testid={`switch-${preference.eventType}-${channel.key}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+
+            {!readOnly && (
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!dirty || saveMutation.isPending}
+                data-testid={defaults ? "button-save-notification-defaults" : "button-save-notification-preferences"}
+              >
+                Save
+              </Button>
+            </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
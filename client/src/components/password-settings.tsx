@@ -0,0 +1,99 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { changePasswordSchema, type ChangePassword } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// apiRequest errors read "400: {json}" - show just the server's message
+function describeError(error: Error) {
+  const [, body] = error.message.match(/^\d{3}: ([\s\S]*)$/) ?? [];
+  try {
+    return JSON.parse(body).message ?? error.message;
+  } catch {
+    return body ?? error.message;
+  }
+}
+
+export default function PasswordSettings() {
+  const { toast } = useToast();
+
+  const form = useForm<ChangePassword>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: ChangePassword) => {
+      await apiRequest("PUT", "/api/user/password", data);
+    },
+    onSuccess: () => {
+      form.reset();
+      toast({
+        title: "Password Changed",
+        description: "You've been signed out everywhere else.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Change Password",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          Changing it signs you out on every other device
+        </p>
+      </CardHeader>
+
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => changePasswordMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Current Password</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="password" autoComplete="current-password" data-testid="input-current-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="password" autoComplete="new-password" data-testid="input-new-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={changePasswordMutation.isPending} data-testid="button-change-password">
+              {changePasswordMutation.isPending ? "Saving..." : "Change Password"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { type PointTransaction } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+
+export const reasonLabels = {
+  task_approved: "Task Approved",
+  adjustment: "Manual Adjustment",
+  opening_balance: "Opening Balance",
+  redemption: "Reward Redeemed",
+  redemption_refund: "Redemption Refunded",
+};
+
+export function PointTransactionList({ transactions }: { transactions: PointTransaction[] }) {
+  if (transactions.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <i className="fas fa-receipt text-4xl mb-4 text-gray-300"></i>
+        <p>No point transactions yet</p>
+        <p className="text-sm">Points you earn will be recorded here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {transactions.map((transaction) => (
+        <div
+          key={transaction.id}
+          className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+          data-testid={`point-transaction-${transaction.id}`}
+        >
+          <div className="flex-1">
+            <div className="flex items-center space-x-2 mb-1">
+              <Badge variant="outline">
+                {reasonLabels[transaction.reason]}
+              </Badge>
+              <span className="text-sm text-gray-500">
+                {formatDistanceToNow(new Date(transaction.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+            {transaction.note && (
+              <p className="text-sm text-gray-600">{transaction.note}</p>
+            )}
+            {transaction.taskId && (
+              <p className="text-xs text-gray-400">Task {transaction.taskId}</p>
+            )}
+          </div>
+          <div
+            className={`font-bold text-lg ${transaction.delta >= 0 ? "text-green-600" : "text-red-600"}`}
+            data-testid={`point-transaction-delta-${transaction.id}`}
+          >
+            {transaction.delta >= 0 ? "+" : ""}{transaction.delta}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function PointHistory() {
+  const { data: transactions = [], isLoading } = useQuery<PointTransaction[]>({
+    queryKey: ["/api/user/points/history"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Points History</CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          Every change to your balance and why it happened
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="animate-pulse h-14 bg-gray-200 rounded-lg"></div>
+            ))}
+          </div>
+        ) : (
+          <PointTransactionList transactions={transactions} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PointTransactionList } from "@/components/point-history";
+import { type PointTransaction, type UserSummary } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export default function PointsLedger({ readOnly = false }: { readOnly?: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [userId, setUserId] = useState("");
+  const [delta, setDelta] = useState(0);
+  const [note, setNote] = useState("");
+
+  const { data: users = [] } = useQuery<UserSummary[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const { data: transactions = [], isLoading } = useQuery<PointTransaction[]>({
+    queryKey: ["/api/admin/users", userId, "points"],
+    enabled: !!userId,
+  });
+
+  const selectedUser = users.find((user) => user.id === userId);
+  const ledgerTotal = transactions.reduce((sum, transaction) => sum + transaction.delta, 0);
+  const outOfSync = !!selectedUser && !isLoading && selectedUser.totalPoints !== ledgerTotal;
+
+  const invalidateLedger = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
+  };
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/points`, { delta, note });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      setDelta(0);
+      setNote("");
+      toast({
+        title: "Points Adjusted",
+        description: "The adjustment has been recorded in the ledger.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Adjustment Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/points/reconcile`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      toast({
+        title: "Balance Reconciled",
+        description: "The user's balance now matches the ledger.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reconcile Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Points Ledger</CardTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Inspect where a user's points came from
+          </p>
+        </div>
+        <Select value={userId} onValueChange={setUserId}>
+          <SelectTrigger className="w-[220px]" data-testid="select-ledger-user">
+            <SelectValue placeholder="Select a user" />
+          </SelectTrigger>
+          <SelectContent>
+            {users.map((user) => (
+              <SelectItem key={user.id} value={user.id}>
+                {user.username} ({user.totalPoints} points)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+
+      <CardContent>
+        {!selectedUser ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-search text-4xl mb-4 text-gray-300"></i>
+            <p>Select a user to view their ledger</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+              <div className="text-sm">
+                <div>
+                  Balance: <span className="font-bold" data-testid="text-ledger-balance">{selectedUser.totalPoints}</span>
+                </div>
+                <div>
+                  Ledger total: <span className="font-bold" data-testid="text-ledger-total">{ledgerTotal}</span>
+                </div>
+              </div>
+              {outOfSync && !readOnly && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => reconcileMutation.mutate()}
+                  disabled={reconcileMutation.isPending}
+                  data-testid="button-reconcile-points"
+                >
+                  {reconcileMutation.isPending ? "Reconciling..." : "Reconcile"}
+                </Button>
+              )}
+            </div>
+
+            {!readOnly && (
+            <div className="flex items-center space-x-2">
+              <Input
+                type="number"
+                value={delta}
+                onChange={(e) => setDelta(parseInt(e.target.value) || 0)}
+                className="w-28"
+                data-testid="input-adjust-delta"
+              />
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Reason for the adjustment"
+                data-testid="input-adjust-note"
+              />
+              <Button
+                onClick={() => adjustMutation.mutate()}
+                disabled={adjustMutation.isPending || delta === 0 || !note.trim()}
+                data-testid="button-adjust-points"
+              >
+                Adjust
+              </Button>
+            </div>
+            )}
+
+            {isLoading ? (
+              <div className="animate-pulse h-14 bg-gray-200 rounded-lg"></div>
+            ) : (
+              <PointTransactionList transactions={transactions} />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { redemptionStatusColors } from "@/components/rewards-catalog";
+import { insertRewardSchema, type InsertReward, type Reward, type RedemptionWithDetails } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { Plus } from "lucide-react";
+
+function RewardForm() {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<InsertReward>({
+    resolver: zodResolver(insertRewardSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      cost: 100,
+      stock: 10,
+    },
+  });
+
+  const createRewardMutation = useMutation({
+    mutationFn: async (data: InsertReward) => {
+      const res = await apiRequest("POST", "/api/admin/rewards", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/rewards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rewards"] });
+      toast({
+        title: "Reward Created",
+        description: "The reward is now available in the catalog.",
+      });
+      form.reset();
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create Reward",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" data-testid="button-add-reward">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Reward
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Reward</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createRewardMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. Company hoodie" data-testid="input-reward-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} data-testid="textarea-reward-description" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="cost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cost (points)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min="1"
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        data-testid="input-reward-cost"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="stock"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stock</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min="0"
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        data-testid="input-reward-stock"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={createRewardMutation.isPending} data-testid="button-submit-reward">
+                {createRewardMutation.isPending ? "Creating..." : "Create Reward"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function RewardManagement({ readOnly = false }: { readOnly?: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: catalog = [] } = useQuery<Reward[]>({
+    queryKey: ["/api/admin/rewards"],
+  });
+
+  const { data: allRedemptions = [] } = useQuery<RedemptionWithDetails[]>({
+    queryKey: ["/api/admin/redemptions"],
+  });
+
+  const pendingRedemptions = allRedemptions.filter((redemption) => redemption.status === "pending");
+
+  const updateRewardMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; stock?: number; active?: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/admin/rewards/${id}`, updates);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/rewards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rewards"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewRedemptionMutation = useMutation({
+    mutationFn: async ({ id, status, note }: { id: string; status: "fulfilled" | "refused"; note?: string }) => {
+      const res = await apiRequest("PATCH", `/api/admin/redemptions/${id}`, { status, note });
+      return await res.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/redemptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/rewards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Redemption Updated",
+        description: `Redemption has been ${variables.status}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRefuse = (id: string) => {
+    const note = window.prompt("Reason for refusing (shown to the user):") ?? undefined;
+    reviewRedemptionMutation.mutate({ id, status: "refused", note });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Rewards Catalog</CardTitle>
+            <p className="text-sm text-gray-600 mt-1">{catalog.length} rewards</p>
+          </div>
+          {!readOnly && <RewardForm />}
+        </CardHeader>
+        <CardContent>
+          {catalog.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <i className="fas fa-gift text-4xl mb-4 text-gray-300"></i>
+              <p>No rewards in the catalog</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {catalog.map((reward) => (
+                <div
+                  key={reward.id}
+                  className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+                  data-testid={`admin-reward-${reward.id}`}
+                >
+                  <div className="flex-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{reward.name}</span>
+                      <Badge variant="outline">{reward.cost} pts</Badge>
+                    </div>
+                    <div className="flex items-center space-x-2 mt-2">
+                      <span className="text-sm text-gray-500">Stock</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        defaultValue={reward.stock}
+                        className="w-20 h-8"
+                        disabled={readOnly}
+                        onBlur={(e) => {
+                          const stock = parseInt(e.target.value) || 0;
+                          if (stock !== reward.stock) {
+                            updateRewardMutation.mutate({ id: reward.id, stock });
+                          }
+                        }}
+                        data-testid={`input-reward-stock-${reward.id}`}
+                      />
+                    </div>
+                  </div>
+                  <Switch
+                    checked={reward.active}
+                    onCheckedChange={(active) => updateRewardMutation.mutate({ id: reward.id, active })}
+                    disabled={readOnly}
+                    data-testid={`switch-reward-active-${reward.id}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Redemption Requests</CardTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            {pendingRedemptions.length} awaiting fulfilment
+          </p>
+        </CardHeader>
+        <CardContent>
+          {allRedemptions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <i className="fas fa-inbox text-4xl mb-4 text-gray-300"></i>
+              <p>No redemption requests yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {allRedemptions.map((redemption) => (
+                <div
+                  key={redemption.id}
+                  className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+                  data-testid={`redemption-${redemption.id}`}
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {redemption.username} · {redemption.rewardName}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {redemption.cost} points · {formatDistanceToNow(new Date(redemption.createdAt), { addSuffix: true })}
+                    </div>
+                  </div>
+                  {redemption.status === "pending" && !readOnly ? (
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        className="bg-success text-white hover:bg-green-600"
+                        onClick={() => reviewRedemptionMutation.mutate({ id: redemption.id, status: "fulfilled" })}
+                        disabled={reviewRedemptionMutation.isPending}
+                        data-testid={`button-fulfil-${redemption.id}`}
+                      >
+                        Fulfil
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => handleRefuse(redemption.id)}
+                        disabled={reviewRedemptionMutation.isPending}
+                        data-testid={`button-refuse-${redemption.id}`}
+                      >
+                        Refuse
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge className={redemptionStatusColors[redemption.status]}>
+                      {redemption.status}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { type Reward, type RedemptionWithDetails } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+
+export const redemptionStatusColors = {
+  pending: "bg-yellow-100 text-yellow-800",
+  fulfilled: "bg-green-100 text-green-800",
+  refused: "bg-red-100 text-red-800",
+};
+
+interface UserStats {
+  totalPoints: number;
+}
+
+export default function RewardsCatalog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: catalog = [], isLoading } = useQuery<Reward[]>({
+    queryKey: ["/api/rewards"],
+  });
+
+  const { data: myRedemptions = [] } = useQuery<RedemptionWithDetails[]>({
+    queryKey: ["/api/redemptions/my"],
+  });
+
+  const { data: userStats } = useQuery<UserStats>({
+    queryKey: ["/api/user/stats"],
+  });
+
+  const balance = userStats?.totalPoints || 0;
+
+  const redeemMutation = useMutation({
+    mutationFn: async (reward: Reward) => {
+      const res = await apiRequest("POST", `/api/rewards/${reward.id}/redeem`);
+      return await res.json();
+    },
+    onSuccess: (_, reward) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rewards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/redemptions/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/points/history"] });
+      toast({
+        title: "Reward Requested!",
+        description: `${reward.cost} points were held for "${reward.name}". An admin will fulfil your request soon.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Redemption Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Rewards</CardTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Spend your points - you have <span className="font-medium">{balance}</span> available
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="animate-pulse h-32 bg-gray-200 rounded-lg"></div>
+              ))}
+            </div>
+          ) : catalog.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <i className="fas fa-gift text-4xl mb-4 text-gray-300"></i>
+              <p>No rewards available yet</p>
+              <p className="text-sm">Check back soon!</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {catalog.map((reward) => (
+                <div
+                  key={reward.id}
+                  className="p-4 border border-gray-200 rounded-lg flex flex-col"
+                  data-testid={`reward-${reward.id}`}
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <h4 className="font-medium text-gray-900">{reward.name}</h4>
+                    <Badge variant="outline">{reward.cost} pts</Badge>
+                  </div>
+                  <p className="text-sm text-gray-600 mb-4 flex-1">{reward.description}</p>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-500">
+                      {reward.stock > 0 ? `${reward.stock} left` : "Out of stock"}
+                    </span>
+                    <Button
+                      size="sm"
+                      onClick={() => redeemMutation.mutate(reward)}
+                      disabled={redeemMutation.isPending || reward.stock === 0 || balance < reward.cost}
+                      data-testid={`button-redeem-${reward.id}`}
+                    >
+                      Redeem
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {myRedemptions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>My Redemptions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {myRedemptions.map((redemption) => (
+                <div
+                  key={redemption.id}
+                  className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+                  data-testid={`my-redemption-${redemption.id}`}
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">{redemption.rewardName}</div>
+                    <div className="text-sm text-gray-500">
+                      {redemption.cost} points · {formatDistanceToNow(new Date(redemption.createdAt), { addSuffix: true })}
+                    </div>
+                    {redemption.note && (
+                      <p className="text-sm text-gray-600 mt-1">{redemption.note}</p>
+                    )}
+                  </div>
+                  <Badge className={redemptionStatusColors[redemption.status]}>
+                    {redemption.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { type UserSummary } from "@shared/schema";
+import { hasPermission, ROLES, type UserRole } from "@shared/permissions";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+const roleOrder = Object.keys(ROLES) as UserRole[];
+
+type ResetLink = { username: string; url: string; expiresAt: string };
+
+function ResetLinkDialog({ resetLink, onClose }: { resetLink: ResetLink | null; onClose: () => void }) {
+  return (
+    <Dialog open={!!resetLink} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Password Reset Link</DialogTitle>
+          <DialogDescription>
+            Send this link to {resetLink?.username} - it won't be shown again. It can be used once, before {resetLink && format(new Date(resetLink.expiresAt), "HH:mm")}.
+          </DialogDescription>
+        </DialogHeader>
+        <Input readOnly value={resetLink?.url ?? ""} onFocus={(e) => e.target.select()} data-testid="input-reset-link" />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function RoleManagement() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [resetLink, setResetLink] = useState<ResetLink | null>(null);
+  const canResetPasswords = hasPermission(currentUser, "users.reset_passwords");
+
+  const { data: users = [] } = useQuery<UserSummary[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      const res = await apiRequest("PATCH", `/api/admin/users/${id}/role`, { role });
+      return await res.json();
+    },
+    onSuccess: (user: UserSummary) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
+      toast({
+        title: "Role Updated",
+        description: `${user.username} is now ${ROLES[user.role].label.toLowerCase()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Update Role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (user: UserSummary) => {
+      const res = await apiRequest("POST", `/api/admin/users/${user.id}/password-reset`);
+      return { username: user.username, ...(await res.json()) };
+    },
+    onSuccess: (link: ResetLink) => setResetLink(link),
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create Reset Link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Roles</CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          Choose what each account can do in the admin dashboard
+        </p>
+      </CardHeader>
+
+      <CardContent>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+          {roleOrder.map((role) => (
+            <div key={role} className="p-3 bg-gray-50 rounded-lg text-sm">
+              <div className="font-medium text-gray-900">{ROLES[role].label}</div>
+              <div className="text-gray-500">{ROLES[role].description}</div>
+            </div>
+          ))}
+        </div>
+
+        {users.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-user-shield text-4xl mb-4 text-gray-300"></i>
+            <p>No users yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {users.map((user) => (
+              <div
+                key={user.id}
+                className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+                data-testid={`role-user-${user.id}`}
+              >
+                <div>
+                  <span className="font-medium text-gray-900">{user.username}</span>
+                  {user.id === currentUser?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  {canResetPasswords && user.id !== currentUser?.id && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Create a password reset link"
+                      onClick={() => resetPasswordMutation.mutate(user)}
+                      disabled={resetPasswordMutation.isPending}
+                      data-testid={`button-reset-password-${user.id}`}
+                    >
+                      <i className="fas fa-key"></i>
+                    </Button>
+                  )}
+                  <Select
+                    value={user.role}
+                    onValueChange={(role) => updateRoleMutation.mutate({ id: user.id, role: role as UserRole })}
+                    disabled={user.id === currentUser?.id || updateRoleMutation.isPending}
+                  >
+                    <SelectTrigger className="w-[160px]" data-testid={`select-role-${user.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roleOrder.map((role) => (
+                        <SelectItem key={role} value={role}>{ROLES[role].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ResetLinkDialog resetLink={resetLink} onClose={() => setResetLink(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Season, type SeasonStanding } from "@shared/schema";
+import { format } from "date-fns";
+
+const podiumStyles = [
+  { height: "h-28", color: "bg-yellow-500", icon: "fa-crown" },
+  { height: "h-20", color: "bg-gray-400", icon: "fa-medal" },
+  { height: "h-14", color: "bg-orange-400", icon: "fa-award" },
+];
+
+// Second place on the left, winner in the middle, third on the right
+const podiumOrder = [1, 0, 2];
+
+export default function SeasonHistory() {
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(null);
+
+  const { data: seasons = [] } = useQuery<Season[]>({
+    queryKey: ["/api/seasons"],
+  });
+
+  const pastSeasons = seasons.filter((season) => season.closedAt);
+  const seasonId = selectedSeasonId ?? pastSeasons[0]?.id ?? "";
+  const season = pastSeasons.find((s) => s.id === seasonId);
+
+  const { data: standings = [], isLoading } = useQuery<SeasonStanding[]>({
+    queryKey: ["/api/seasons", seasonId, "standings"],
+    enabled: !!seasonId,
+  });
+
+  if (pastSeasons.length === 0) {
+    return null;
+  }
+
+  const podium = standings.slice(0, 3);
+  const rest = standings.slice(3, 10);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Past Seasons</CardTitle>
+          {season && (
+            <p className="text-sm text-gray-600 mt-1">
+              {format(new Date(season.startsAt), "MMM dd, yyyy")} – {format(new Date(season.endsAt), "MMM dd, yyyy")}
+            </p>
+          )}
+        </div>
+        <Select value={seasonId} onValueChange={setSelectedSeasonId}>
+          <SelectTrigger className="w-[200px]" data-testid="select-past-season">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {pastSeasons.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse h-32 bg-gray-200 rounded-lg"></div>
+        ) : standings.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-flag-checkered text-4xl mb-4 text-gray-300"></i>
+            <p>Nobody earned points this season</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-end justify-center space-x-4">
+              {podiumOrder.map((place) => {
+                const standing = podium[place];
+                if (!standing) {
+                  return null;
+                }
+                const style = podiumStyles[place];
+                return (
+                  <div key={standing.id} className="flex flex-col items-center w-28" data-testid={`season-podium-${place + 1}`}>
+                    <i className={`fas ${style.icon} text-2xl mb-2 ${place === 0 ? "text-yellow-500" : place === 1 ? "text-gray-400" : "text-orange-400"}`}></i>
+                    <div className="font-medium text-gray-900 truncate w-full text-center">{standing.username}</div>
+                    <div className="text-sm text-gray-600 mb-2">{standing.points.toLocaleString()} pts</div>
+                    <div className={`w-full ${style.height} ${style.color} rounded-t-lg flex items-start justify-center pt-2 text-white font-bold`}>
+                      {standing.rank}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {rest.length > 0 && (
+              <div className="space-y-2">
+                {rest.map((standing) => (
+                  <div
+                    key={standing.id}
+                    className="flex items-center justify-between p-3 border border-gray-200 rounded-lg text-sm"
+                    data-testid={`season-standing-${standing.rank}`}
+                  >
+                    <span>
+                      <span className="font-bold mr-3">#{standing.rank}</span>
+                      {standing.username}
+                    </span>
+                    <span className="font-medium">{standing.points.toLocaleString()} pts</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
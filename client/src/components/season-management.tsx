@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { type Season } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+function getSeasonStatus(season: Season) {
+  if (season.closedAt) return { label: "Closed", className: "bg-gray-100 text-gray-800" };
+  if (new Date(season.startsAt) > new Date()) return { label: "Upcoming", className: "bg-blue-100 text-blue-800" };
+  return { label: "Active", className: "bg-green-100 text-green-800" };
+}
+
+export default function SeasonManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+
+  const { data: seasons = [] } = useQuery<Season[]>({
+    queryKey: ["/api/seasons"],
+  });
+
+  const createSeasonMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/seasons", {
+        name,
+        startsAt: new Date(`${startsAt}T00:00:00`).toISOString(),
+        endsAt: new Date(`${endsAt}T23:59:59.999`).toISOString(),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seasons"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
+      setName("");
+      setStartsAt("");
+      setEndsAt("");
+      toast({
+        title: "Season Created",
+        description: "The leaderboard will show this season while it runs.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create Season",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeSeasonMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/seasons/${id}/close`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seasons"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
+      toast({
+        title: "Season Closed",
+        description: "Final standings have been archived.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Close Season",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = (season: Season) => {
+    if (window.confirm(`Close "${season.name}"? Its standings will be frozen.`)) {
+      closeSeasonMutation.mutate(season.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Seasons</CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          Run time-boxed contribution drives with their own standings
+        </p>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="flex items-center space-x-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Season name, e.g. Q3 Drive"
+            data-testid="input-season-name"
+          />
+          <Input
+            type="date"
+            value={startsAt}
+            onChange={(e) => setStartsAt(e.target.value)}
+            className="w-[160px]"
+            data-testid="input-season-start"
+          />
+          <Input
+            type="date"
+            value={endsAt}
+            onChange={(e) => setEndsAt(e.target.value)}
+            className="w-[160px]"
+            data-testid="input-season-end"
+          />
+          <Button
+            onClick={() => createSeasonMutation.mutate()}
+            disabled={!name.trim() || !startsAt || !endsAt || createSeasonMutation.isPending}
+            data-testid="button-create-season"
+          >
+            Create
+          </Button>
+        </div>
+
+        {seasons.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-flag-checkered text-4xl mb-4 text-gray-300"></i>
+            <p>No seasons yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {seasons.map((season) => {
+              const status = getSeasonStatus(season);
+              return (
+                <div
+                  key={season.id}
+                  className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+                  data-testid={`season-${season.id}`}
+                >
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{season.name}</span>
+                      <Badge className={status.className}>{status.label}</Badge>
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {format(new Date(season.startsAt), "MMM dd, yyyy")} – {format(new Date(season.endsAt), "MMM dd, yyyy")}
+                    </div>
+                  </div>
+                  {!season.closedAt && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleClose(season)}
+                      disabled={closeSeasonMutation.isPending}
+                      data-testid={`button-close-season-${season.id}`}
+                    >
+                      Close Season
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
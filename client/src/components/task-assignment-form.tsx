@@ -9,27 +9,46 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { assignTaskSchema, TASK_POINTS } from "@shared/schema";
+import { assignTaskSchema, MAX_TASK_POINTS, TASK_POINTS, type TeamWithMembers, type UserSummary } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { z } from "zod";
-import { Calendar, Clock, Plus, User } from "lucide-react";
+import { Calendar, Clock, Plus, User as UserIcon, Users } from "lucide-react";
 
 const formSchema = assignTaskSchema.extend({
   deadline: z.string().min(1, "Deadline is required"),
+}).refine((data) => data.assignedTo || data.teamId, {
+  message: "Choose who to assign the task to",
+  path: ["assignedTo"],
 });
 
 type FormData = z.infer<typeof formSchema>;
 
-export function TaskAssignmentForm() {
+interface TaskAssignmentFormProps {
+  // Only offer the teams this user leads, and their members
+  leadId?: string;
+}
+
+export function TaskAssignmentForm({ leadId }: TaskAssignmentFormProps) {
   const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState<"user" | "team">("user");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Get all users for assignment
-  const { data: users = [] } = useQuery({
+  const { data: users = [] } = useQuery<UserSummary[]>({
     queryKey: ["/api/admin/users"],
   });
 
+  // Get all teams for team-wide assignment
+  const { data: teams = [] } = useQuery<TeamWithMembers[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const assignableTeams = leadId ? teams.filter((team) => team.leadId === leadId) : teams;
+  const assignableUsers = leadId
+    ? users.filter((user) => assignableTeams.some((team) => team.members.some((member) => member.id === user.id)))
+    : users;
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -38,19 +57,29 @@ export function TaskAssignmentForm() {
       type: "content_creation",
       points: TASK_POINTS.content_creation,
       assignedTo: "",
+      teamId: "",
       deadline: "",
+      latePolicy: "allow_late",
+      latePenaltyPercent: 0,
     },
   });
 
+  const latePolicy = form.watch("latePolicy");
+
   const assignTaskMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      const response = await apiRequest("POST", "/api/admin/assign-task", data);
+      const { assignedTo, teamId, ...task } = data;
+      const response = await apiRequest("POST", "/api/admin/assign-task", target === "team"
+        ? { ...task, teamId }
+        : { ...task, assignedTo });
       return response.json();
     },
     onSuccess: () => {
       toast({
         title: "Task Assigned Successfully",
-        description: "The task has been assigned to the user.",
+        description: target === "team"
+          ? "The task has been assigned to every member of the team."
+          : "The task has been assigned to the user.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
@@ -66,6 +95,12 @@ export function TaskAssignmentForm() {
     },
   });
 
+  const handleTargetChange = (value: "user" | "team") => {
+    setTarget(value);
+    form.setValue("assignedTo", "");
+    form.setValue("teamId", "");
+  };
+
   const handleSubmit = (data: FormData) => {
     assignTaskMutation.mutate(data);
   };
@@ -93,38 +128,88 @@ export function TaskAssignmentForm() {
       <DialogContent className="max-w-2xl">
         <DialogHeader>
           <DialogTitle className="flex items-center text-xl">
-            <User className="w-5 h-5 mr-2 text-blue-600" />
+            <UserIcon className="w-5 h-5 mr-2 text-blue-600" />
             Assign New Task
           </DialogTitle>
         </DialogHeader>
         
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <div className="flex items-center space-x-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={target === "user" ? "default" : "outline"}
+                onClick={() => handleTargetChange("user")}
+                data-testid="button-target-user"
+              >
+                <UserIcon className="w-4 h-4 mr-2" />
+                User
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={target === "team" ? "default" : "outline"}
+                onClick={() => handleTargetChange("team")}
+                data-testid="button-target-team"
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Team
+              </Button>
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="assignedTo"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Assign To User</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl>
-                        <SelectTrigger data-testid="select-assigned-user">
-                          <SelectValue placeholder="Select a user" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {users.map((user: any) => (
-                          <SelectItem key={user.id} value={user.id}>
-                            {user.username} ({user.totalPoints} points)
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {target === "user" ? (
+                <FormField
+                  control={form.control}
+                  name="assignedTo"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Assign To User</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-assigned-user">
+                            <SelectValue placeholder="Select a user" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {assignableUsers.map((user) => (
+                            <SelectItem key={user.id} value={user.id}>
+                              {user.username} ({user.totalPoints} points)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="teamId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Assign To Team</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-assigned-team">
+                            <SelectValue placeholder="Select a team" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {assignableTeams.map((team) => (
+                            <SelectItem key={team.id} value={team.id}>
+                              {team.name} ({team.members.length} members)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               
               <FormField
                 control={form.control}
@@ -222,8 +307,8 @@ export function TaskAssignmentForm() {
                       <Input 
                         {...field} 
                         type="number" 
-                        min="1"
-                        max="200"
+                        min="0"
+                        max={MAX_TASK_POINTS}
                         onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                         data-testid="input-task-points"
                       />
@@ -234,6 +319,53 @@ export function TaskAssignmentForm() {
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="latePolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>After the Deadline</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-late-policy">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="allow_late">Allow late completion</SelectItem>
+                        <SelectItem value="expire">Expire the task</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {latePolicy !== "expire" && (
+                <FormField
+                  control={form.control}
+                  name="latePenaltyPercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Late Penalty (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min="0"
+                          max="100"
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          data-testid="input-late-penalty"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
             <div className="flex justify-end space-x-3 pt-4">
               <Button 
                 type="button" 
@@ -256,7 +388,7 @@ export function TaskAssignmentForm() {
                   </>
                 ) : (
                   <>
-                    <User className="w-4 h-4 mr-2" />
+                    <UserIcon className="w-4 h-4 mr-2" />
                     Assign Task
                   </>
                 )}
@@ -8,6 +8,8 @@ const statusColors = {
   pending: "bg-yellow-100 text-yellow-800",
   assigned: "bg-blue-100 text-blue-800",
   in_progress: "bg-orange-100 text-orange-800",
+  overdue: "bg-amber-100 text-amber-800",
+  expired: "bg-gray-200 text-gray-700",
   completed: "bg-purple-100 text-purple-800",
   approved: "bg-green-100 text-green-800",
   rejected: "bg-red-100 text-red-800",
@@ -74,6 +76,12 @@ function TaskCard({ task }: { task: Task }) {
                 Approved
               </span>
             )}
+            {task.completedLate && (
+              <span className="text-amber-600">
+                <i className="fas fa-hourglass-end mr-1"></i>
+                Completed late
+              </span>
+            )}
             {task.assignedTo && (
               <span className="text-blue-600">
                 <i className="fas fa-user-tag mr-1"></i>
@@ -132,15 +140,15 @@ export default function TaskList() {
         ) : (
           <div className="space-y-8">
             {/* Pending Tasks Section */}
-            {tasks.filter(task => ["pending", "assigned", "in_progress", "completed"].includes(task.status)).length > 0 && (
+            {tasks.filter(task => ["pending", "assigned", "in_progress", "overdue", "completed"].includes(task.status)).length > 0 && (
               <div>
                 <h3 className="text-lg font-semibold mb-4 flex items-center">
                   <i className="fas fa-clock w-5 h-5 mr-2 text-yellow-600"></i>
-                  Pending Tasks ({tasks.filter(task => ["pending", "assigned", "in_progress", "completed"].includes(task.status)).length})
+                  Pending Tasks ({tasks.filter(task => ["pending", "assigned", "in_progress", "overdue", "completed"].includes(task.status)).length})
                 </h3>
                 <div className="space-y-4">
                   {tasks
-                    .filter(task => ["pending", "assigned", "in_progress", "completed"].includes(task.status))
+                    .filter(task => ["pending", "assigned", "in_progress", "overdue", "completed"].includes(task.status))
                     .map((task) => (
                       <TaskCard key={task.id} task={task} />
                     ))}
@@ -165,16 +173,16 @@ export default function TaskList() {
               </div>
             )}
 
-            {/* Rejected Tasks Section */}
-            {tasks.filter(task => task.status === "rejected").length > 0 && (
+            {/* Rejected and Expired Tasks Section */}
+            {tasks.filter(task => ["rejected", "expired"].includes(task.status)).length > 0 && (
               <div>
                 <h3 className="text-lg font-semibold mb-4 flex items-center">
                   <i className="fas fa-times-circle w-5 h-5 mr-2 text-red-600"></i>
-                  Rejected Tasks ({tasks.filter(task => task.status === "rejected").length})
+                  Rejected & Expired Tasks ({tasks.filter(task => ["rejected", "expired"].includes(task.status)).length})
                 </h3>
                 <div className="space-y-4">
                   {tasks
-                    .filter(task => task.status === "rejected")
+                    .filter(task => ["rejected", "expired"].includes(task.status))
                     .map((task) => (
                       <TaskCard key={task.id} task={task} />
                     ))}
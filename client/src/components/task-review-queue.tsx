@@ -7,10 +7,11 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { type Task } from "@shared/schema";
+import { applyLatePenalty, MAX_TASK_POINTS, type Task } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 
 const typeColors = {
   content_creation: "bg-blue-50 text-blue-700",
@@ -28,9 +29,22 @@ const typeLabels = {
   documentation: "Documentation",
 };
 
+// apiRequest errors read "<status>: <body>" - pull out the server's message
+// and whether the task changed under us
+function describeReviewError(error: Error) {
+  const [, status, body] = error.message.match(/^(\d{3}): ([\s\S]*)$/) ?? [];
+  let message = body ?? error.message;
+  try {
+    message = JSON.parse(body).message ?? message;
+  } catch {
+    // Not JSON - use the text as it is
+  }
+  return { conflict: status === "409", message };
+}
+
 interface ReviewModalProps {
   task: Task;
-  onReview: (taskId: string, status: "approved" | "rejected", points: number, rejectionReason?: string) => void;
+  onReview: (task: Task, status: "approved" | "rejected", points: number, rejectionReason?: string) => void;
   isReviewing: boolean;
 }
 
@@ -41,7 +55,7 @@ function ReviewModal({ task, onReview, isReviewing }: ReviewModalProps) {
   const [open, setOpen] = useState(false);
 
   const handleSubmit = () => {
-    onReview(task.id, status, points, status === "rejected" ? rejectionReason : undefined);
+    onReview(task, status, points, status === "rejected" ? rejectionReason : undefined);
     setOpen(false);
     setRejectionReason("");
   };
@@ -85,6 +99,22 @@ function ReviewModal({ task, onReview, isReviewing }: ReviewModalProps) {
             </div>
           )}
           
+          {task.completedLate && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg" data-testid={`late-penalty-${task.id}`}>
+              <div className="flex items-center space-x-2">
+                <i className="fas fa-hourglass-end text-amber-600"></i>
+                <span className="text-sm font-medium text-amber-800">
+                  Completed after the deadline{task.deadline && ` (${format(new Date(task.deadline), "MMM dd, yyyy HH:mm")})`}
+                </span>
+              </div>
+              <p className="text-sm text-amber-700 mt-1">
+                {task.latePenaltyPercent > 0
+                  ? `${task.latePenaltyPercent}% late penalty: ${points} points will be awarded as ${applyLatePenalty(task, points)}.`
+                  : "No late penalty is set for this task."}
+              </p>
+            </div>
+          )}
+
           <div className="flex items-center space-x-4">
             <Badge className={typeColors[task.type]}>
               {typeLabels[task.type]}
@@ -116,6 +146,8 @@ function ReviewModal({ task, onReview, isReviewing }: ReviewModalProps) {
               </label>
               <Input
                 type="number"
+                min="0"
+                max={MAX_TASK_POINTS}
                 value={points}
                 onChange={(e) => setPoints(Number(e.target.value))}
                 disabled={status === "rejected"}
@@ -157,7 +189,9 @@ function ReviewModal({ task, onReview, isReviewing }: ReviewModalProps) {
   );
 }
 
-export default function TaskReviewQueue() {
+// Read-only for roles that can see the queue but not review it
+export default function TaskReviewQueue({ readOnly = false }: { readOnly?: boolean }) {
+  const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -167,20 +201,22 @@ export default function TaskReviewQueue() {
 
   const reviewTaskMutation = useMutation({
     mutationFn: async ({ 
-      taskId, 
+      task, 
       status, 
       points, 
       rejectionReason 
     }: { 
-      taskId: string; 
+      task: Task; 
       status: "approved" | "rejected"; 
       points: number; 
       rejectionReason?: string; 
     }) => {
-      const res = await apiRequest("PATCH", `/api/tasks/${taskId}/review`, {
+      // The version makes the server reject reviews of a stale copy
+      const res = await apiRequest("PATCH", `/api/tasks/${task.id}/review`, {
         status,
         points,
         rejectionReason,
+        version: task.version,
       });
       return await res.json();
     },
@@ -189,35 +225,41 @@ export default function TaskReviewQueue() {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/user/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
       toast({
         title: "Task Reviewed",
         description: `Task has been ${variables.status}.`,
       });
     },
     onError: (error: Error) => {
+      const { conflict, message } = describeReviewError(error);
+      if (conflict) {
+        // Someone else changed or reviewed the task - show its current state
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks/pending"] });
+      }
       toast({
-        title: "Review Failed",
-        description: error.message,
+        title: conflict ? "Task Changed" : "Review Failed",
+        description: message,
         variant: "destructive",
       });
     },
   });
 
-  const handleQuickApprove = (taskId: string, points: number) => {
-    reviewTaskMutation.mutate({ taskId, status: "approved", points });
+  const handleQuickApprove = (task: Task) => {
+    reviewTaskMutation.mutate({ task, status: "approved", points: task.points });
   };
 
-  const handleQuickReject = (taskId: string) => {
+  const handleQuickReject = (task: Task) => {
     reviewTaskMutation.mutate({ 
-      taskId, 
+      task, 
       status: "rejected", 
       points: 0, 
       rejectionReason: "Task did not meet requirements" 
     });
   };
 
-  const handleReview = (taskId: string, status: "approved" | "rejected", points: number, rejectionReason?: string) => {
-    reviewTaskMutation.mutate({ taskId, status, points, rejectionReason });
+  const handleReview = (task: Task, status: "approved" | "rejected", points: number, rejectionReason?: string) => {
+    reviewTaskMutation.mutate({ task, status, points, rejectionReason });
   };
 
   if (isLoading) {
@@ -331,11 +373,13 @@ export default function TaskReviewQueue() {
                 </div>
                 
                 <div className="flex items-center justify-between">
+                  {/* The server refuses reviews of your own tasks */}
+                  {!readOnly && task.submittedBy !== user?.id && task.assignedTo !== user?.id && (
                   <div className="flex items-center space-x-3">
                     <Button
                       size="sm"
                       className="bg-success text-white hover:bg-green-600"
-                      onClick={() => handleQuickApprove(task.id, task.points)}
+                      onClick={() => handleQuickApprove(task)}
                       disabled={reviewTaskMutation.isPending}
                       data-testid={`button-approve-${task.id}`}
                     >
@@ -345,7 +389,7 @@ export default function TaskReviewQueue() {
                     <Button
                       size="sm"
                       variant="destructive"
-                      onClick={() => handleQuickReject(task.id)}
+                      onClick={() => handleQuickReject(task)}
                       disabled={reviewTaskMutation.isPending}
                       data-testid={`button-reject-${task.id}`}
                     >
@@ -358,9 +402,13 @@ export default function TaskReviewQueue() {
                       isReviewing={reviewTaskMutation.isPending}
                     />
                   </div>
+                  )}
                   <div className="flex items-center space-x-2">
                     <span className="text-sm text-gray-500">Points to award:</span>
-                    <span className="font-medium">{task.points}</span>
+                    <span className="font-medium">{applyLatePenalty(task, task.points)}</span>
+                    {task.completedLate && task.latePenaltyPercent > 0 && (
+                      <span className="text-xs text-amber-600">(-{task.latePenaltyPercent}% late)</span>
+                    )}
                   </div>
                 </div>
               </div>
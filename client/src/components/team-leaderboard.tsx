@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { type TeamStanding } from "@shared/schema";
+
+export default function TeamLeaderboard() {
+  const { data: standings = [], isLoading } = useQuery<TeamStanding[]>({
+    queryKey: ["/api/leaderboard/teams"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team Leaderboard</CardTitle>
+        <p className="text-sm text-gray-600 mt-1">Combined points of every team member</p>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2].map((i) => (
+              <div key={i} className="animate-pulse h-14 bg-gray-200 rounded-lg"></div>
+            ))}
+          </div>
+        ) : standings.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-users text-4xl mb-4 text-gray-300"></i>
+            <p>No teams yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {standings.map((team, index) => (
+              <div
+                key={team.id}
+                className="flex items-center space-x-4 p-4 rounded-lg border bg-gray-50 border-gray-200"
+                data-testid={`team-leaderboard-${index + 1}`}
+              >
+                <div className="flex items-center justify-center w-8 h-8 rounded-full font-bold text-sm bg-gray-400 text-white">
+                  {index + 1}
+                </div>
+                <div className="flex-1">
+                  <div className="font-medium text-gray-900">{team.name}</div>
+                  <div className="text-sm text-gray-600">{team.memberCount} members</div>
+                </div>
+                <div className="text-right">
+                  <div className="font-bold text-gray-900 text-lg" data-testid={`team-leaderboard-points-${index + 1}`}>
+                    {team.totalPoints.toLocaleString()}
+                  </div>
+                  <div className="text-sm text-gray-600">points</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
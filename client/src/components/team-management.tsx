@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type TeamWithMembers, type UserSummary } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+function TeamCard({ team, users }: { team: TeamWithMembers; users: UserSummary[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newMember, setNewMember] = useState("");
+
+  const invalidateTeams = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leaderboard/teams"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Team Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/admin/teams/${team.id}/members`, { userId });
+    },
+    onSuccess: () => {
+      invalidateTeams();
+      setNewMember("");
+    },
+    onError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/admin/teams/${team.id}/members/${userId}`);
+    },
+    onSuccess: invalidateTeams,
+    onError,
+  });
+
+  const setLeadMutation = useMutation({
+    mutationFn: async (leadId: string) => {
+      await apiRequest("PATCH", `/api/admin/teams/${team.id}`, { leadId });
+    },
+    onSuccess: invalidateTeams,
+    onError,
+  });
+
+  const memberIds = new Set(team.members.map((member) => member.id));
+  const candidates = users.filter((user) => !memberIds.has(user.id));
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4" data-testid={`team-${team.id}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h4 className="font-medium text-gray-900">{team.name}</h4>
+          {team.description && (
+            <p className="text-sm text-gray-600">{team.description}</p>
+          )}
+        </div>
+        <Badge variant="outline">{team.members.length} members</Badge>
+      </div>
+
+      <div className="space-y-2 mb-3">
+        {team.members.map((member) => (
+          <div key={member.id} className="flex items-center justify-between text-sm">
+            <div className="flex items-center space-x-2">
+              <span>{member.username}</span>
+              {team.leadId === member.id && (
+                <Badge variant="secondary" data-testid={`team-lead-${team.id}`}>Lead</Badge>
+              )}
+              <span className="text-gray-500">{member.totalPoints} pts</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              {team.leadId !== member.id && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLeadMutation.mutate(member.id)}
+                  disabled={setLeadMutation.isPending}
+                  data-testid={`button-make-lead-${team.id}-${member.id}`}
+                >
+                  Make lead
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeMemberMutation.mutate(member.id)}
+                disabled={removeMemberMutation.isPending}
+                data-testid={`button-remove-member-${team.id}-${member.id}`}
+              >
+                Remove
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Select value={newMember} onValueChange={setNewMember}>
+          <SelectTrigger className="flex-1" data-testid={`select-add-member-${team.id}`}>
+            <SelectValue placeholder="Add a member" />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map((user) => (
+              <SelectItem key={user.id} value={user.id}>
+                {user.username}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => addMemberMutation.mutate(newMember)}
+          disabled={!newMember || addMemberMutation.isPending}
+          data-testid={`button-add-member-${team.id}`}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function TeamManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+
+  const { data: teams = [] } = useQuery<TeamWithMembers[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const { data: users = [] } = useQuery<UserSummary[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const createTeamMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/teams", { name });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leaderboard/teams"] });
+      setName("");
+      toast({
+        title: "Team Created",
+        description: "Add members to start assigning team tasks.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create Team",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Teams</CardTitle>
+          <p className="text-sm text-gray-600 mt-1">Manage squads, their members and leads</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New team name"
+            className="w-48"
+            data-testid="input-team-name"
+          />
+          <Button
+            onClick={() => createTeamMutation.mutate()}
+            disabled={!name.trim() || createTeamMutation.isPending}
+            data-testid="button-create-team"
+          >
+            Create
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {teams.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-users text-4xl mb-4 text-gray-300"></i>
+            <p>No teams yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {teams.map((team) => (
+              <TeamCard key={team.id} team={team} users={users} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
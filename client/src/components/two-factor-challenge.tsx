@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import TotpCodeInput from "@/components/totp-code-input";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// apiRequest errors read "400: {json}" - show just the server's message
+function describeError(error: Error) {
+  const [, body] = error.message.match(/^\d{3}: ([\s\S]*)$/) ?? [];
+  try {
+    return JSON.parse(body).message ?? error.message;
+  } catch {
+    return body ?? error.message;
+  }
+}
+
+// Second sign-in step. onCancel returns to the password form, which is also
+// where the server sends us once the challenge expires.
+export default function TwoFactorChallenge({ onCancel }: { onCancel: () => void }) {
+  const { twoFactorMutation } = useAuth();
+  const { toast } = useToast();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const verify = (value: string) => {
+    twoFactorMutation.mutate({ code: value }, {
+      onError: (error: Error) => {
+        setCode("");
+        toast({
+          title: "Verification Failed",
+          description: describeError(error),
+          variant: "destructive",
+        });
+        if (error.message.startsWith("401")) {
+          onCancel();
+        }
+      },
+    });
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (code.trim()) verify(code.trim());
+      }}
+      className="space-y-4"
+    >
+      <div className="text-center">
+        <p className="text-sm text-gray-600">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor authentication."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      {useRecoveryCode ? (
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoFocus
+          autoComplete="off"
+          data-testid="input-recovery-code"
+        />
+      ) : (
+        <TotpCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={verify}
+          disabled={twoFactorMutation.isPending}
+        />
+      )}
+
+      <Button type="submit" className="w-full" disabled={!code.trim() || twoFactorMutation.isPending} data-testid="button-verify-two-factor">
+        {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={onCancel} data-testid="button-cancel-two-factor">
+          Back
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          className="h-auto p-0"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+          data-testid="button-toggle-recovery-code"
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import TotpCodeInput from "@/components/totp-code-input";
+import { type TwoFactorSetup, type TwoFactorStatus, type User } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// apiRequest errors read "400: {json}" - show just the server's message
+function describeError(error: Error) {
+  const [, body] = error.message.match(/^\d{3}: ([\s\S]*)$/) ?? [];
+  try {
+    return JSON.parse(body).message ?? error.message;
+  } catch {
+    return body ?? error.message;
+  }
+}
+
+function RecoveryCodesDialog({ codes, onClose }: { codes: string[] | null; onClose: () => void }) {
+  return (
+    <Dialog open={!!codes} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Recovery Codes</DialogTitle>
+          <DialogDescription>
+            Save these somewhere safe - they won't be shown again. Each one signs you in once if you lose your authenticator app.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm text-center" data-testid="list-recovery-codes">
+          {codes?.map((code) => <div key={code}>{code}</div>)}
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => navigator.clipboard.writeText(codes?.join("\n") ?? "")}
+          data-testid="button-copy-recovery-codes"
+        >
+          <i className="fas fa-copy mr-2"></i>
+          Copy
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    setCode("");
+    toast({
+      title,
+      description: describeError(error),
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return await res.json();
+    },
+    onSuccess: (started: TwoFactorSetup) => {
+      setCode("");
+      setSetup(started);
+    },
+    onError: onError("Failed to Start Setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code: value });
+      return await res.json();
+    },
+    onSuccess: ({ user, recoveryCodes }: { user: User; recoveryCodes: string[] }) => {
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(recoveryCodes);
+      toast({
+        title: "Two-Factor Authentication On",
+        description: "You've been signed out everywhere else.",
+      });
+    },
+    onError: onError("Failed to Turn On Two-Factor"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/recovery-codes", { code: code.trim() });
+      return await res.json();
+    },
+    onSuccess: ({ recoveryCodes }: { recoveryCodes: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      setCode("");
+      setRecoveryCodes(recoveryCodes);
+    },
+    onError: onError("Failed to Regenerate Codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/disable", { code: code.trim() });
+      return await res.json();
+    },
+    onSuccess: (user: User) => {
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      setCode("");
+      toast({
+        title: "Two-Factor Authentication Off",
+        description: "Signing in now only needs your password.",
+      });
+    },
+    onError: onError("Failed to Turn Off Two-Factor"),
+  });
+
+  const busy = regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          {status?.enabled ? (
+            <Badge className="bg-green-100 text-green-800" data-testid="badge-two-factor-on">On</Badge>
+          ) : status?.required ? (
+            <Badge className="bg-red-100 text-red-800" data-testid="badge-two-factor-required">Required</Badge>
+          ) : null}
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          Sign in with a code from an authenticator app as well as your password
+        </p>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="animate-pulse h-16 bg-gray-200 rounded-lg"></div>
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-gray-600" data-testid="text-recovery-codes-remaining">
+              {status.recoveryCodesRemaining} of 10 recovery codes left.
+              {status.required && " Your role requires two-factor authentication, so it can't be turned off."}
+            </p>
+            <div className="space-y-2">
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Authenticator or recovery code"
+                autoComplete="off"
+                data-testid="input-two-factor-manage-code"
+              />
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => regenerateMutation.mutate()}
+                  disabled={!code.trim() || busy}
+                  data-testid="button-regenerate-recovery-codes"
+                >
+                  New Recovery Codes
+                </Button>
+                {!status.required && (
+                  <Button
+                    variant="outline"
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                    onClick={() => disableMutation.mutate()}
+                    disabled={!code.trim() || busy}
+                    data-testid="button-disable-two-factor"
+                  >
+                    Turn Off
+                  </Button>
+                )}
+              </div>
+            </div>
+          </>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, or enter the key by hand. Then type the 6-digit code it shows.
+            </p>
+            <div className="flex justify-center">
+              <img src={setup.qrCode} alt="Authenticator QR code" className="w-48 h-48" data-testid="img-totp-qr" />
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg text-center">
+              <div className="text-xs text-gray-500">Setup key</div>
+              <code className="text-sm break-all" data-testid="text-totp-secret">{setup.secret}</code>
+            </div>
+            <TotpCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={(value) => enableMutation.mutate(value)}
+              disabled={enableMutation.isPending}
+            />
+            <div className="flex items-center space-x-2">
+              <Button
+                onClick={() => enableMutation.mutate(code)}
+                disabled={code.length !== 6 || enableMutation.isPending}
+                data-testid="button-confirm-two-factor"
+              >
+                {enableMutation.isPending ? "Verifying..." : "Turn On"}
+              </Button>
+              <Button variant="ghost" onClick={() => setSetup(null)} data-testid="button-cancel-two-factor-setup">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-two-factor">
+            <i className="fas fa-shield-alt mr-2"></i>
+            {setupMutation.isPending ? "Starting..." : "Set Up Two-Factor"}
+          </Button>
+        )}
+      </CardContent>
+
+      <RecoveryCodesDialog codes={recoveryCodes} onClose={() => setRecoveryCodes(null)} />
+    </Card>
+  );
+}
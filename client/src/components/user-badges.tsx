@@ -0,0 +1,71 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { BADGES, type UserBadge } from "@shared/schema";
+
+export function BadgeIcons({ badgeIds }: { badgeIds: string[] }) {
+  const earned = BADGES.filter((badge) => badgeIds.includes(badge.id));
+  if (earned.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-1">
+      {earned.map((badge) => (
+        <Tooltip key={badge.id}>
+          <TooltipTrigger asChild>
+            <span
+              className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center"
+              data-testid={`badge-icon-${badge.id}`}
+            >
+              <i className={`fas ${badge.icon} text-primary text-xs`}></i>
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p className="font-medium">{badge.name}</p>
+            <p className="text-xs">{badge.description}</p>
+          </TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
+
+export default function UserBadges() {
+  const { data: badges = [] } = useQuery<UserBadge[]>({
+    queryKey: ["/api/user/badges"],
+  });
+
+  const earnedIds = new Set(badges.map((badge) => badge.badgeId));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Badges</CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          {earnedIds.size} of {BADGES.length} earned
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+          {BADGES.map((badge) => {
+            const earned = earnedIds.has(badge.id);
+            return (
+              <div
+                key={badge.id}
+                className={`flex flex-col items-center text-center p-3 rounded-lg border ${earned ? "border-primary/30 bg-primary/5" : "border-gray-200 opacity-50"}`}
+                data-testid={`user-badge-${badge.id}`}
+              >
+                <div className={`w-10 h-10 rounded-full flex items-center justify-center mb-2 ${earned ? "bg-primary/10" : "bg-gray-100"}`}>
+                  <i className={`fas ${badge.icon} ${earned ? "text-primary" : "text-gray-400"}`}></i>
+                </div>
+                <div className="text-sm font-medium text-gray-900">{badge.name}</div>
+                <div className="text-xs text-gray-500">{badge.description}</div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
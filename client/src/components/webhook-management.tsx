@@ -0,0 +1,395 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  insertWebhookSchema,
+  WEBHOOK_EVENTS,
+  type InsertWebhook,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookWithSecret,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { Plus } from "lucide-react";
+
+const deliveryStatusColors: Record<WebhookDelivery["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+function SecretDialog({ webhook, onClose }: { webhook: WebhookWithSecret | null; onClose: () => void }) {
+  return (
+    <Dialog open={!!webhook} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Signing Secret</DialogTitle>
+          <DialogDescription>
+            Copy this secret now - it won't be shown again. Use it to verify the X-ProofWork-Signature header.
+          </DialogDescription>
+        </DialogHeader>
+        <Input readOnly value={webhook?.secret ?? ""} onFocus={(e) => e.target.select()} data-testid="input-webhook-secret" />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function WebhookForm({ onCreated }: { onCreated: (webhook: WebhookWithSecret) => void }) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<InsertWebhook>({
+    resolver: zodResolver(insertWebhookSchema),
+    defaultValues: {
+      url: "",
+      description: "",
+      events: [...WEBHOOK_EVENTS],
+    },
+  });
+
+  const createWebhookMutation = useMutation({
+    mutationFn: async (data: InsertWebhook) => {
+      const res = await apiRequest("POST", "/api/admin/webhooks", data);
+      return await res.json();
+    },
+    onSuccess: (webhook: WebhookWithSecret) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+      form.reset();
+      setOpen(false);
+      onCreated(webhook);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create Webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" data-testid="button-add-webhook">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Webhook
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Webhook</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createWebhookMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Endpoint URL</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="https://bots.example.com/proofwork" data-testid="input-webhook-url" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} placeholder="What receives these events?" data-testid="input-webhook-description" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="events"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Events</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {WEBHOOK_EVENTS.map((event) => (
+                      <label key={event} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(event)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(checked ? [...field.value, event] : field.value.filter((e) => e !== event))
+                          }
+                          data-testid={`checkbox-webhook-event-${event}`}
+                        />
+                        <span>{event}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={createWebhookMutation.isPending} data-testid="button-submit-webhook">
+              {createWebhookMutation.isPending ? "Creating..." : "Create Webhook"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function WebhookDeliveries({ webhookId }: { webhookId: string }) {
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/admin/webhooks", webhookId, "deliveries"],
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse h-16 bg-gray-200 rounded-lg"></div>;
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">No deliveries yet</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {deliveries.map((delivery) => (
+        <div
+          key={delivery.id}
+          className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded"
+          data-testid={`webhook-delivery-${delivery.id}`}
+        >
+          <div>
+            <div className="flex items-center space-x-2">
+              <span className="font-mono text-gray-900">{delivery.event}</span>
+              <Badge className={deliveryStatusColors[delivery.status]}>{delivery.status}</Badge>
+              {delivery.responseStatus !== null && (
+                <span className="text-gray-500">HTTP {delivery.responseStatus}</span>
+              )}
+            </div>
+            {delivery.lastError && <div className="text-red-600 text-xs mt-1">{delivery.lastError}</div>}
+          </div>
+          <div className="text-right text-gray-500">
+            <div>{formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}</div>
+            <div className="text-xs">
+              {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function WebhookManagement({ readOnly = false }: { readOnly?: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<WebhookWithSecret | null>(null);
+
+  const { data: webhooks = [] } = useQuery<Webhook[]>({
+    queryKey: ["/api/admin/webhooks"],
+  });
+
+  const updateWebhookMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; active: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/admin/webhooks/${id}`, updates);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Update Webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteWebhookMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+      toast({
+        title: "Webhook Deleted",
+        description: "The endpoint will no longer receive events.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Delete Webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/webhooks/${id}/secret`);
+      return await res.json();
+    },
+    onSuccess: (webhook: WebhookWithSecret) => {
+      setRevealed(webhook);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Rotate Secret",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testWebhookMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/webhooks/${id}/test`);
+      return await res.json();
+    },
+    onSuccess: (delivery: WebhookDelivery) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks", delivery.webhookId, "deliveries"] });
+      setExpandedId(delivery.webhookId);
+      toast(delivery.status === "succeeded"
+        ? { title: "Test Event Delivered", description: `The endpoint responded with HTTP ${delivery.responseStatus}.` }
+        : { title: "Test Event Failed", description: delivery.lastError ?? "The endpoint did not accept the event.", variant: "destructive" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Send Test Event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (webhook: Webhook) => {
+    if (window.confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) {
+      deleteWebhookMutation.mutate(webhook.id);
+    }
+  };
+
+  const handleRotate = (webhook: Webhook) => {
+    if (window.confirm("Issue a new signing secret? The current one stops working immediately.")) {
+      rotateSecretMutation.mutate(webhook.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Webhooks</CardTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Send signed task lifecycle events to your own services
+          </p>
+        </div>
+        {!readOnly && <WebhookForm onCreated={setRevealed} />}
+      </CardHeader>
+
+      <CardContent>
+        {webhooks.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <i className="fas fa-plug text-4xl mb-4 text-gray-300"></i>
+            <p>No webhooks configured</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="p-3 border border-gray-200 rounded-lg" data-testid={`webhook-${webhook.id}`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 truncate">{webhook.url}</div>
+                    {webhook.description && <div className="text-sm text-gray-500">{webhook.description}</div>}
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="outline" className="font-mono text-xs">{event}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Switch
+                    checked={webhook.active}
+                    onCheckedChange={(active) => updateWebhookMutation.mutate({ id: webhook.id, active })}
+                    disabled={readOnly}
+                    data-testid={`switch-webhook-active-${webhook.id}`}
+                  />
+                </div>
+
+                <div className="flex items-center space-x-2 mt-3">
+                  {!readOnly && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => testWebhookMutation.mutate(webhook.id)}
+                    disabled={!webhook.active || testWebhookMutation.isPending}
+                    data-testid={`button-test-webhook-${webhook.id}`}
+                  >
+                    Send Test Event
+                  </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                    data-testid={`button-webhook-deliveries-${webhook.id}`}
+                  >
+                    {expandedId === webhook.id ? "Hide Deliveries" : "Deliveries"}
+                  </Button>
+                  {!readOnly && (
+                  <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRotate(webhook)}
+                    disabled={rotateSecretMutation.isPending}
+                    data-testid={`button-rotate-webhook-secret-${webhook.id}`}
+                  >
+                    Rotate Secret
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                    onClick={() => handleDelete(webhook)}
+                    disabled={deleteWebhookMutation.isPending}
+                    data-testid={`button-delete-webhook-${webhook.id}`}
+                  >
+                    Delete
+                  </Button>
+                  </>
+                  )}
+                </div>
+
+                {expandedId === webhook.id && (
+                  <div className="mt-3">
+                    <WebhookDeliveries webhookId={webhook.id} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <SecretDialog webhook={revealed} onClose={() => setRevealed(null)} />
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { insertUserSchema, User as SelectUser, InsertUser, TwoFactorChallenge } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -12,13 +12,17 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  twoFactorMutation: UseMutationResult<SelectUser, Error, TwoFactorChallenge>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+// Accounts with two-factor on aren't signed in until twoFactorMutation succeeds
+export type LoginResult = SelectUser | { twoFactorRequired: true };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
@@ -36,8 +40,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: LoginResult) => {
+      if (!("twoFactorRequired" in result)) {
+        queryClient.setQueryData(["/api/user"], result);
+      }
     },
     onError: (error: Error) => {
       toast({
@@ -48,6 +54,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const twoFactorMutation = useMutation({
+    mutationFn: async (challenge: TwoFactorChallenge) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", challenge);
+      return await res.json();
+    },
+    onSuccess: (user: SelectUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+  });
+
   const registerMutation = useMutation({
     mutationFn: async (credentials: InsertUser) => {
       const res = await apiRequest("POST", "/api/register", credentials);
@@ -88,6 +104,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -2,57 +2,152 @@ import { useEffect, useRef } from "react";
 import { useAuth } from "./use-auth";
 import { useToast } from "./use-toast";
 import { queryClient } from "@/lib/queryClient";
+import {
+  PROTOCOL_VERSION,
+  serverMessageSchema,
+  fallbackNotificationSchema,
+  type NotificationEvent,
+  type FallbackNotification,
+} from "@shared/protocol";
+
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+// How many notification IDs to remember for de-duplicating replays
+const SEEN_LIMIT = 200;
+
+// Refresh whatever data the event may have changed
+function invalidateForEvent(notification: NotificationEvent) {
+  // Every pushed notification is also a new inbox entry
+  queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+
+  switch (notification.type) {
+    case 'task_reviewed':
+    case 'task_assigned':
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks/my'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leaderboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/points/history'] });
+      break;
+    case 'badge_earned':
+      queryClient.invalidateQueries({ queryKey: ['/api/user/badges'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leaderboard'] });
+      break;
+    case 'redemption_reviewed':
+      queryClient.invalidateQueries({ queryKey: ['/api/redemptions/my'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rewards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/points/history'] });
+      break;
+    case 'redemption_requested':
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/redemptions'] });
+      break;
+  }
+}
+
+function isDestructive(notification: NotificationEvent) {
+  return (notification.type === 'task_reviewed' && notification.status === 'rejected')
+    || (notification.type === 'redemption_reviewed' && notification.status === 'refused');
+}
 
 export function useNotifications() {
   const { user } = useAuth();
+  const userId = user?.id;
   const { toast } = useToast();
   const wsRef = useRef<WebSocket | null>(null);
 
+  const showNotification = (notification: NotificationEvent | FallbackNotification["event"], destructive: boolean) => {
+    // Show toast notification
+    toast({
+      title: notification.title,
+      description: notification.message,
+      variant: destructive ? "destructive" : "default",
+    });
+
+    // You can also dispatch custom events for other components to listen
+    window.dispatchEvent(new CustomEvent('proofwork:notification', {
+      detail: notification
+    }));
+  };
+
   useEffect(() => {
-    if (!user) return;
+    if (!userId) return;
 
     // WebSocket connection for real-time notifications
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    try {
-      const ws = new WebSocket(wsUrl);
+
+    // ID of the newest notification we've seen - sent on reconnect so the
+    // server replays anything that arrived while we were disconnected
+    let cursor: string | null = null;
+    // Replayed and live deliveries can overlap right after a reconnect
+    const seen = new Set<string>();
+    let attempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const scheduleReconnect = () => {
+      if (disposed) return;
+      // Exponential backoff with jitter so tabs don't reconnect in lockstep
+      const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+      attempt++;
+      reconnectTimer = setTimeout(connect, delay / 2 + Math.random() * delay / 2);
+    };
+
+    const connect = () => {
+      let ws: WebSocket;
+      try {
+        ws = new WebSocket(cursor ? `${wsUrl}?since=${encodeURIComponent(cursor)}` : wsUrl);
+      } catch (error) {
+        console.error("Failed to establish WebSocket connection:", error);
+        scheduleReconnect();
+        return;
+      }
       wsRef.current = ws;
 
+      // The server identifies us from the session cookie sent with the upgrade
       ws.onopen = () => {
+        attempt = 0;
         console.log("WebSocket connected for notifications");
-        // Identify this client with the user ID
-        ws.send(JSON.stringify({
-          type: 'identify',
-          userId: user.id
-        }));
       };
 
       ws.onmessage = (event) => {
         try {
-          const notification = JSON.parse(event.data);
-          
-          // Invalidate relevant queries when tasks are updated
-          if (notification.type === 'task_reviewed' || notification.type === 'task_assigned') {
-            queryClient.invalidateQueries({ queryKey: ['/api/tasks/my'] });
-            queryClient.invalidateQueries({ queryKey: ['/api/user/stats'] });
-            queryClient.invalidateQueries({ queryKey: ['/api/leaderboard'] });
+          const data = JSON.parse(event.data);
+          const parsed = serverMessageSchema.safeParse(data);
+
+          if (parsed.success) {
+            if (parsed.data.kind === 'hello') {
+              if (parsed.data.v !== PROTOCOL_VERSION) {
+                console.warn(`Notification protocol v${parsed.data.v} differs from client v${PROTOCOL_VERSION}`);
+              }
+              // Anything older is already in the inbox
+              cursor ??= parsed.data.cursor;
+              return;
+            }
+
+            if (!markSeen(parsed.data.id)) return;
+
+            const notification = parsed.data.event;
+            invalidateForEvent(notification);
+            // The user may have turned toasts off for this event type
+            if (parsed.data.toast) {
+              showNotification(notification, isDestructive(notification));
+            }
+            return;
+          }
+
+          // A newer server may send events this client doesn't know yet -
+          // still show them, just without any event-specific handling
+          const fallback = fallbackNotificationSchema.safeParse(data);
+          if (fallback.success) {
+            if (!markSeen(fallback.data.id)) return;
+
+            queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+            showNotification(fallback.data.event, false);
+            return;
           }
-          
-          // Show toast notification
-          toast({
-            title: notification.title,
-            description: notification.message,
-            variant: notification.type === 'task_reviewed' && notification.status === 'rejected' 
-              ? "destructive" 
-              : "default",
-          });
-
-          // You can also dispatch custom events for other components to listen
-          window.dispatchEvent(new CustomEvent('proofwork:notification', {
-            detail: notification
-          }));
-          
+
+          console.warn("Ignoring unrecognised WebSocket message:", parsed.error.issues);
         } catch (error) {
           console.error("Error parsing notification:", error);
         }
@@ -64,19 +159,32 @@ export function useNotifications() {
 
       ws.onclose = () => {
         console.log("WebSocket connection closed");
+        scheduleReconnect();
       };
+    };
+
+    // Returns false for a notification we've already handled
+    const markSeen = (id: string) => {
+      if (seen.has(id)) return false;
+      seen.add(id);
+      if (seen.size > SEEN_LIMIT) {
+        seen.delete(seen.values().next().value!);
+      }
+      cursor = id;
+      return true;
+    };
 
-    } catch (error) {
-      console.error("Failed to establish WebSocket connection:", error);
-    }
+    connect();
 
     // Cleanup on unmount or user change
     return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
       if (wsRef.current) {
         wsRef.current.close();
       }
     };
-  }, [user, toast]);
+  }, [userId, toast]);
 
   return null;
 }
\ No newline at end of file
@@ -1,15 +1,16 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { isStaff, needsTwoFactorSetup } from "@shared/permissions";
 
 export function ProtectedRoute({
   path,
   component: Component,
-  adminOnly = false,
+  staffOnly = false,
 }: {
   path: string;
   component: () => React.JSX.Element;
-  adminOnly?: boolean;
+  staffOnly?: boolean;
 }) {
   const { user, isLoading } = useAuth();
 
@@ -26,13 +27,13 @@ export function ProtectedRoute({
   if (!user) {
     return (
       <Route path={path}>
-        <Redirect to={adminOnly ? "/admin/login" : "/auth"} />
+        <Redirect to={staffOnly ? "/admin/login" : "/auth"} />
       </Route>
     );
   }
 
-  // Check admin access for admin-only routes
-  if (adminOnly && user.role !== "admin") {
+  // Check staff access for the admin dashboard
+  if (staffOnly && !isStaff(user)) {
     return (
       <Route path={path}>
         <Redirect to="/" />
@@ -40,6 +41,15 @@ export function ProtectedRoute({
     );
   }
 
+  // Roles that require two-factor can't use the dashboard until it's on
+  if (staffOnly && needsTwoFactorSetup(user)) {
+    return (
+      <Route path={path}>
+        <Redirect to="/two-factor" />
+      </Route>
+    );
+  }
+
   return (
     <Route path={path}>
       <Component />
@@ -6,26 +6,42 @@ import { Badge } from "@/components/ui/badge";
 import Leaderboard from "@/components/leaderboard";
 import { TaskAssignmentForm } from "@/components/task-assignment-form";
 import TaskReviewQueue from "@/components/task-review-queue";
+import PointsLedger from "@/components/points-ledger";
+import RewardManagement from "@/components/reward-management";
+import TeamManagement from "@/components/team-management";
+import SeasonManagement from "@/components/season-management";
+import NotificationBell from "@/components/notification-bell";
+import NotificationPreferences from "@/components/notification-preferences";
+import WebhookManagement from "@/components/webhook-management";
+import ChatIntegrationManagement from "@/components/chat-integration-management";
+import AuditLog from "@/components/audit-log";
+import RoleManagement from "@/components/role-management";
+import InviteManagement from "@/components/invite-management";
 import { useQuery } from "@tanstack/react-query";
+import { type TeamStanding } from "@shared/schema";
+import { hasPermission, isStaff, ROLES, type Permission } from "@shared/permissions";
 
 interface AdminStats {
   pendingTasks: number;
   approvedToday: number;
   pointsDistributed: number;
   activeUsers: number;
+  teamTotals: TeamStanding[];
 }
 
 export default function AdminDashboard() {
   const { user, logoutMutation } = useAuth();
   const [, navigate] = useLocation();
 
+  const can = (permission: Permission) => hasPermission(user, permission);
+
   const { data: adminStats } = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
-    enabled: !!user && user.role === "admin",
+    enabled: can("stats.view"),
   });
 
-  // Redirect if not admin
-  if (user?.role !== "admin") {
+  // Redirect if not staff
+  if (!user || !isStaff(user)) {
     navigate("/");
     return null;
   }
@@ -50,6 +66,8 @@ export default function AdminDashboard() {
             </div>
             
             <div className="flex items-center space-x-4">
+              <NotificationBell />
+
               <div className="flex items-center space-x-3">
                 <div className="text-right text-sm">
                   <div className="font-medium text-gray-900" data-testid="text-admin-username">
@@ -57,7 +75,7 @@ export default function AdminDashboard() {
                   </div>
                   <div className="text-gray-500">
                     <Badge variant="destructive" data-testid="badge-admin-role">
-                      Admin
+                      {ROLES[user.role].label}
                     </Badge>
                   </div>
                 </div>
@@ -77,6 +95,7 @@ export default function AdminDashboard() {
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Admin Stats Overview */}
+        {can("stats.view") && (
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <Card>
             <CardContent className="pt-6">
@@ -142,20 +161,102 @@ export default function AdminDashboard() {
             </CardContent>
           </Card>
         </div>
+        )}
 
-        {/* Task Assignment Section */}
-        <div className="mb-8">
-          <div className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-bold text-gray-900">Task Assignment</h2>
-            <TaskAssignmentForm />
+        {/* Team Totals */}
+        {adminStats && adminStats.teamTotals.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+            {adminStats.teamTotals.map((team) => (
+              <Card key={team.id}>
+                <CardContent className="pt-4">
+                  <p className="text-sm font-medium text-gray-600">{team.name}</p>
+                  <p className="text-xl font-bold text-gray-900" data-testid={`admin-stat-team-${team.id}`}>
+                    {team.totalPoints.toLocaleString()} pts
+                  </p>
+                  <p className="text-xs text-gray-500">{team.memberCount} members</p>
+                </CardContent>
+              </Card>
+            ))}
           </div>
-        </div>
+        )}
+
+        {/* Task Assignment Section - team leads assign within their own teams */}
+        {(can("tasks.assign") || can("tasks.assign_team")) && (
+          <div className="mb-8">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-2xl font-bold text-gray-900">Task Assignment</h2>
+              <TaskAssignmentForm leadId={can("tasks.assign") ? undefined : user.id} />
+            </div>
+          </div>
+        )}
+
+        {/* Teams Section */}
+        {can("teams.manage") && (
+          <div className="mb-8">
+            <TeamManagement />
+          </div>
+        )}
 
         {/* Task Review & Grading Section */}
-        <div className="mb-8">
-          <TaskReviewQueue />
+        {can("tasks.view") && (
+          <div className="mb-8">
+            <TaskReviewQueue readOnly={!can("tasks.review")} />
+          </div>
+        )}
+
+        {/* Rewards Section */}
+        {can("rewards.view") && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">Rewards</h2>
+            <RewardManagement readOnly={!can("rewards.manage")} />
+          </div>
+        )}
+
+        {/* Points Ledger Section */}
+        {can("points.view") && (
+          <div className="mb-8">
+            <PointsLedger readOnly={!can("points.adjust")} />
+          </div>
+        )}
+
+        {/* Seasons Section */}
+        {can("seasons.manage") && (
+          <div className="mb-8">
+            <SeasonManagement />
+          </div>
+        )}
+
+        {/* Notification Settings Section */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+          <NotificationPreferences />
+          {can("notifications.view_defaults") && (
+            <NotificationPreferences defaults readOnly={!can("notifications.manage_defaults")} />
+          )}
         </div>
 
+        {/* Integrations Section */}
+        {can("integrations.view") && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+            <WebhookManagement readOnly={!can("integrations.manage")} />
+            <ChatIntegrationManagement readOnly={!can("integrations.manage")} />
+          </div>
+        )}
+
+        {/* Roles & Invitations Section */}
+        {(can("users.manage_roles") || can("users.invite")) && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+            {can("users.manage_roles") && <RoleManagement />}
+            {can("users.invite") && <InviteManagement />}
+          </div>
+        )}
+
+        {/* Audit Log Section */}
+        {can("audit.view") && (
+          <div className="mb-8">
+            <AuditLog />
+          </div>
+        )}
+
         {/* Leaderboard Section */}
         <div className="mb-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">User Leaderboard</h2>
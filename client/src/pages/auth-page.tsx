@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,21 +9,22 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSchema, insertAdminUserSchema } from "@shared/schema";
+import { insertUserSchema, registerUserSchema } from "@shared/schema";
+import { isStaff } from "@shared/permissions";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import TwoFactorChallenge from "@/components/two-factor-challenge";
 import { z } from "zod";
 
 const loginSchema = insertUserSchema;
-const registerSchema = insertUserSchema;
-const adminRegisterSchema = insertAdminUserSchema;
+const registerSchema = registerUserSchema;
 
 type LoginData = z.infer<typeof loginSchema>;
 type RegisterData = z.infer<typeof registerSchema>;
-type AdminRegisterData = z.infer<typeof adminRegisterSchema>;
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
   const [location, navigate] = useLocation();
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
   
   // Check if this is admin login
   const isAdminLogin = location.includes('/admin/login');
@@ -44,23 +45,14 @@ export default function AuthPage() {
     },
   });
 
-  const adminRegisterForm = useForm<AdminRegisterData>({
-    resolver: zodResolver(adminRegisterSchema),
-    defaultValues: {
-      username: "",
-      password: "",
-      adminCode: "",
-    },
-  });
-
   // Handle redirects in useEffect to avoid setState during render
   useEffect(() => {
     if (user) {
-      if (isAdminLogin && user.role !== "admin") {
-        // Non-admin trying to access admin login - redirect to user dashboard
+      if (isAdminLogin && !isStaff(user)) {
+        // Non-staff trying to access admin login - redirect to user dashboard
         navigate("/");
-      } else if (isAdminLogin && user.role === "admin") {
-        // Admin already logged in - go to admin dashboard
+      } else if (isAdminLogin && isStaff(user)) {
+        // Staff already logged in - go to admin dashboard
         navigate("/admin");
       } else {
         // Regular user login - go to user dashboard
@@ -84,11 +76,14 @@ export default function AuthPage() {
   const handleLogin = (data: LoginData) => {
     loginMutation.mutate(data, {
       onSuccess: (loggedInUser) => {
-        if (isAdminLogin) {
-          if (loggedInUser.role === "admin") {
+        if ("twoFactorRequired" in loggedInUser) {
+          // The redirect effect takes over once the code is verified
+          setTwoFactorPending(true);
+        } else if (isAdminLogin) {
+          if (isStaff(loggedInUser)) {
             navigate("/admin");
           } else {
-            // Non-admin trying to login through admin portal
+            // Non-staff trying to login through admin portal
             navigate("/");
           }
         } else {
@@ -104,18 +99,6 @@ export default function AuthPage() {
     });
   };
 
-  const handleAdminRegister = (data: AdminRegisterData) => {
-    registerMutation.mutate(data, {
-      onSuccess: (user) => {
-        if (user.role === "admin") {
-          navigate("/admin");
-        } else {
-          navigate("/");
-        }
-      },
-    });
-  };
-
   return (
     <div className="min-h-screen bg-gray-50 flex">
       {/* Left side - Forms */}
@@ -135,88 +118,31 @@ export default function AuthPage() {
                 Administrator Portal
               </Badge>
             )}
-            <CardTitle>{isAdminLogin ? 'Admin Login' : 'Welcome Back'}</CardTitle>
+            <CardTitle>{twoFactorPending ? 'Two-Factor Authentication' : isAdminLogin ? 'Admin Login' : 'Welcome Back'}</CardTitle>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="login" className="w-full">
-              {!isAdminLogin && (
-                <TabsList className="grid w-full grid-cols-2">
-                  <TabsTrigger value="login">Login</TabsTrigger>
-                  <TabsTrigger value="register">Register</TabsTrigger>
-                </TabsList>
-              )}
-              {isAdminLogin && (
-                <div className="text-center mb-4">
-                  <p className="text-sm text-gray-600">Administrator Sign In</p>
-                  <p className="text-xs text-red-600 mt-1">Admin Code Required for Registration</p>
-                </div>
-              )}
-              
-              {isAdminLogin && (
-                <TabsList className="grid w-full grid-cols-2">
-                  <TabsTrigger value="login">Login</TabsTrigger>
-                  <TabsTrigger value="admin-register">Create Admin</TabsTrigger>
-                </TabsList>
-              )}
-              
-              <TabsContent value="login">
-                <Form {...loginForm}>
-                  <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
-                    <FormField
-                      control={loginForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Username</FormLabel>
-                          <FormControl>
-                            <Input 
-                              {...field} 
-                              placeholder="Enter your username"
-                              data-testid="input-username"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={loginForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password</FormLabel>
-                          <FormControl>
-                            <Input 
-                              {...field} 
-                              type="password" 
-                              placeholder="Enter your password"
-                              data-testid="input-password"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <Button 
-                      type="submit" 
-                      className="w-full"
-                      disabled={loginMutation.isPending}
-                      data-testid="button-login"
-                    >
-                      {loginMutation.isPending ? "Signing in..." : "Sign In"}
-                    </Button>
-                  </form>
-                </Form>
-              </TabsContent>
+            {twoFactorPending ? (
+              <TwoFactorChallenge onCancel={() => setTwoFactorPending(false)} />
+            ) : (
+              <Tabs defaultValue="login" className="w-full">
+                {!isAdminLogin && (
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="login">Login</TabsTrigger>
+                    <TabsTrigger value="register">Register</TabsTrigger>
+                  </TabsList>
+                )}
+                {isAdminLogin && (
+                  <div className="text-center mb-4">
+                    <p className="text-sm text-gray-600">Administrator Sign In</p>
+                    <p className="text-xs text-gray-500 mt-1">New staff accounts are created from an invitation link</p>
+                  </div>
+                )}
               
-              {!isAdminLogin && (
-                <TabsContent value="register">
-                  <Form {...registerForm}>
-                    <form onSubmit={registerForm.handleSubmit(handleRegister)} className="space-y-4">
+                <TabsContent value="login">
+                  <Form {...loginForm}>
+                    <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
                       <FormField
-                        control={registerForm.control}
+                        control={loginForm.control}
                         name="username"
                         render={({ field }) => (
                           <FormItem>
@@ -224,17 +150,17 @@ export default function AuthPage() {
                             <FormControl>
                               <Input 
                                 {...field} 
-                                placeholder="Choose a username"
-                                data-testid="input-register-username"
+                                placeholder="Enter your username"
+                                data-testid="input-username"
                               />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                      
+                    
                       <FormField
-                        control={registerForm.control}
+                        control={loginForm.control}
                         name="password"
                         render={({ field }) => (
                           <FormItem>
@@ -243,127 +169,113 @@ export default function AuthPage() {
                               <Input 
                                 {...field} 
                                 type="password" 
-                                placeholder="Choose a password"
-                                data-testid="input-register-password"
+                                placeholder="Enter your password"
+                                data-testid="input-password"
                               />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                      
+                    
                       <Button 
                         type="submit" 
                         className="w-full"
-                        disabled={registerMutation.isPending}
-                        data-testid="button-register"
+                        disabled={loginMutation.isPending}
+                        data-testid="button-login"
                       >
-                        {registerMutation.isPending ? "Creating account..." : "Create Account"}
+                        {loginMutation.isPending ? "Signing in..." : "Sign In"}
                       </Button>
+
+                      <div className="text-center">
+                        <Link href="/reset-password" className="text-sm text-gray-600 hover:underline" data-testid="link-forgot-password">
+                          Forgot password?
+                        </Link>
+                      </div>
                     </form>
                   </Form>
                 </TabsContent>
-              )}
               
-              {/* Admin Registration Tab */}
-              {isAdminLogin && (
-                <TabsContent value="admin-register">
-                  <Form {...adminRegisterForm}>
-                    <form onSubmit={adminRegisterForm.handleSubmit(handleAdminRegister)} className="space-y-4">
-                      <FormField
-                        control={adminRegisterForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Admin Username</FormLabel>
-                            <FormControl>
-                              <Input 
-                                {...field} 
-                                placeholder="Must contain 'admin'"
-                                data-testid="input-admin-username"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                {!isAdminLogin && (
+                  <TabsContent value="register">
+                    <Form {...registerForm}>
+                      <form onSubmit={registerForm.handleSubmit(handleRegister)} className="space-y-4">
+                        <FormField
+                          control={registerForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  {...field} 
+                                  placeholder="Choose a username"
+                                  data-testid="input-register-username"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                       
-                      <FormField
-                        control={adminRegisterForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input 
-                                {...field} 
-                                type="password" 
-                                placeholder="Secure admin password"
-                                data-testid="input-admin-password"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={adminRegisterForm.control}
-                        name="adminCode"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Admin Code</FormLabel>
-                            <FormControl>
-                              <Input 
-                                {...field} 
-                                placeholder="Enter admin authorization code"
-                                data-testid="input-admin-code"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                            <p className="text-xs text-gray-500">Contact system administrator for the code</p>
-                          </FormItem>
-                        )}
-                      />
+                        <FormField
+                          control={registerForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Password</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  {...field} 
+                                  type="password" 
+                                  placeholder="Choose a password"
+                                  data-testid="input-register-password"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                       
-                      <Button 
-                        type="submit" 
-                        className="w-full"
-                        disabled={registerMutation.isPending}
-                        data-testid="button-admin-register"
-                      >
-                        {registerMutation.isPending ? "Creating admin..." : "Create Admin Account"}
-                      </Button>
-                    </form>
-                  </Form>
-                </TabsContent>
-              )}
-              
-              {/* Navigation Links */}
-              <div className="mt-4 text-center">
-                {isAdminLogin ? (
-                  <Button 
-                    variant="link" 
-                    onClick={() => navigate("/auth")}
-                    className="text-sm text-gray-600"
-                    data-testid="link-user-login"
-                  >
-                    <i className="fas fa-user mr-2"></i>
-                    User Login Instead
-                  </Button>
-                ) : (
-                  <Button 
-                    variant="link" 
-                    onClick={() => navigate("/admin/login")}
-                    className="text-sm text-gray-600"
-                    data-testid="link-admin-login"
-                  >
-                    <i className="fas fa-shield-alt mr-2"></i>
-                    Admin Login
-                  </Button>
+                        <Button 
+                          type="submit" 
+                          className="w-full"
+                          disabled={registerMutation.isPending}
+                          data-testid="button-register"
+                        >
+                          {registerMutation.isPending ? "Creating account..." : "Create Account"}
+                        </Button>
+                      </form>
+                    </Form>
+                  </TabsContent>
                 )}
-              </div>
-            </Tabs>
+              
+                {/* Navigation Links */}
+                <div className="mt-4 text-center">
+                  {isAdminLogin ? (
+                    <Button 
+                      variant="link" 
+                      onClick={() => navigate("/auth")}
+                      className="text-sm text-gray-600"
+                      data-testid="link-user-login"
+                    >
+                      <i className="fas fa-user mr-2"></i>
+                      User Login Instead
+                    </Button>
+                  ) : (
+                    <Button 
+                      variant="link" 
+                      onClick={() => navigate("/admin/login")}
+                      className="text-sm text-gray-600"
+                      data-testid="link-admin-login"
+                    >
+                      <i className="fas fa-shield-alt mr-2"></i>
+                      Admin Login
+                    </Button>
+                  )}
+                </div>
+              </Tabs>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -8,6 +8,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import TaskSubmissionForm from "@/components/task-submission-form";
 import TaskList from "@/components/task-list";
 import Leaderboard from "@/components/leaderboard";
+import TeamLeaderboard from "@/components/team-leaderboard";
+import SeasonHistory from "@/components/season-history";
+import { isStaff, ROLES } from "@shared/permissions";
+import PointHistory from "@/components/point-history";
+import RewardsCatalog from "@/components/rewards-catalog";
+import UserBadges from "@/components/user-badges";
+import NotificationBell from "@/components/notification-bell";
+import EmailSettings from "@/components/email-settings";
+import PasswordSettings from "@/components/password-settings";
+import TwoFactorSettings from "@/components/two-factor-settings";
+import NotificationPreferences from "@/components/notification-preferences";
 import { useQuery } from "@tanstack/react-query";
 
 interface UserStats {
@@ -20,6 +31,10 @@ interface UserStats {
 export default function HomePage() {
   const { user, logoutMutation } = useAuth();
   const [, navigate] = useLocation();
+  // Email confirmation links land here - open the tab that reports the outcome
+  const [initialTab] = useState(() =>
+    new URLSearchParams(window.location.search).has("emailVerified") ? "settings" : "history"
+  );
 
   const { data: userStats } = useQuery<UserStats>({
     queryKey: ["/api/user/stats"],
@@ -50,7 +65,9 @@ export default function HomePage() {
             </div>
             
             <div className="flex items-center space-x-4">
-              {user?.role === "admin" && (
+              <NotificationBell />
+
+              {isStaff(user) && (
                 <Button 
                   variant="outline" 
                   onClick={handleAdminView}
@@ -67,7 +84,7 @@ export default function HomePage() {
                   </div>
                   <div className="text-gray-500">
                     <Badge variant="secondary" data-testid="badge-role">
-                      {user?.role}
+                      {user && ROLES[user.role].label}
                     </Badge>
                   </div>
                 </div>
@@ -153,12 +170,20 @@ export default function HomePage() {
           </Card>
         </div>
 
+        {/* Earned Badges */}
+        <div className="mb-8">
+          <UserBadges />
+        </div>
+
         {/* Task Management */}
         <div className="mb-8">
-          <Tabs defaultValue="history" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+          <Tabs defaultValue={initialTab} className="w-full">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="history">My Tasks</TabsTrigger>
               <TabsTrigger value="submit">Submit Task</TabsTrigger>
+              <TabsTrigger value="rewards">Rewards</TabsTrigger>
+              <TabsTrigger value="points">Points History</TabsTrigger>
+              <TabsTrigger value="settings">Settings</TabsTrigger>
             </TabsList>
             
             <TabsContent value="submit" className="mt-6">
@@ -182,11 +207,40 @@ export default function HomePage() {
             <TabsContent value="history" className="mt-6">
               <TaskList />
             </TabsContent>
+
+            <TabsContent value="rewards" className="mt-6">
+              <RewardsCatalog />
+            </TabsContent>
+
+            <TabsContent value="points" className="mt-6">
+              <PointHistory />
+            </TabsContent>
+
+            <TabsContent value="settings" className="mt-6">
+              <div className="max-w-2xl space-y-8">
+                <EmailSettings />
+                <PasswordSettings />
+                <TwoFactorSettings />
+                <NotificationPreferences />
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
 
-        {/* Leaderboard */}
-        <Leaderboard />
+        {/* Leaderboards */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2">
+            <Leaderboard />
+          </div>
+          <div className="lg:col-span-1">
+            <TeamLeaderboard />
+          </div>
+        </div>
+
+        {/* Past Season Podiums */}
+        <div className="mt-8">
+          <SeasonHistory />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,135 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { registerUserSchema, type InsertUser, type User } from "@shared/schema";
+import { isStaff, ROLES, type UserRole } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+// apiRequest errors read "410: {json}" - show just the server's message
+function describeError(error: Error) {
+  const [, body] = error.message.match(/^\d{3}: ([\s\S]*)$/) ?? [];
+  try {
+    return JSON.parse(body).message ?? error.message;
+  } catch {
+    return body ?? error.message;
+  }
+}
+
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: invitation, error, isLoading } = useQuery<{ role: UserRole; expiresAt: string }>({
+    queryKey: ["/api/invitations", token],
+  });
+
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(registerUserSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (data: InsertUser) => {
+      const res = await apiRequest("POST", `/api/invitations/${token}/accept`, data);
+      return await res.json();
+    },
+    onSuccess: (created: User) => {
+      queryClient.setQueryData(["/api/user"], created);
+      navigate(isStaff(created) ? "/admin" : "/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't Create Account",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center space-x-2 mb-4">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <i className="fas fa-envelope-open-text text-white text-sm"></i>
+            </div>
+            <span className="text-xl font-bold text-gray-900">ProofWork</span>
+          </div>
+          <CardTitle>You're Invited</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse h-32 bg-gray-200 rounded-lg"></div>
+          ) : error || !invitation ? (
+            <div className="text-center py-4 text-gray-600">
+              <i className="fas fa-unlink text-4xl mb-4 text-gray-300"></i>
+              <p data-testid="text-invitation-error">{error ? describeError(error) : "Invitation not found"}</p>
+              <p className="text-sm text-gray-500 mt-2">Ask an admin for a new invitation link.</p>
+            </div>
+          ) : user ? (
+            <div className="text-center py-4 text-gray-600">
+              <p>You're signed in as {user.username}. Log out first to accept this invitation with a new account.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="p-3 bg-gray-50 rounded-lg text-sm text-center" data-testid="text-invitation-role">
+                Create an account with the <span className="font-medium">{ROLES[invitation.role].label}</span> role.
+                <div className="text-xs text-gray-500 mt-1">
+                  This link expires {format(new Date(invitation.expiresAt), "MMM dd, yyyy HH:mm")}
+                </div>
+              </div>
+
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit((data) => acceptMutation.mutate(data))} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="Choose a username" data-testid="input-invite-username" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="password" placeholder="Choose a password" data-testid="input-invite-password" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={acceptMutation.isPending} data-testid="button-accept-invitation">
+                    {acceptMutation.isPending ? "Creating account..." : "Accept Invitation"}
+                  </Button>
+                </form>
+              </Form>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
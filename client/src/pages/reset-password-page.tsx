@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { requestPasswordResetSchema, resetPasswordSchema, type ResetPassword } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+
+type RequestPasswordReset = z.infer<typeof requestPasswordResetSchema>;
+
+// apiRequest errors read "410: {json}" - show just the server's message
+function describeError(error: Error) {
+  const [, body] = error.message.match(/^\d{3}: ([\s\S]*)$/) ?? [];
+  try {
+    return JSON.parse(body).message ?? error.message;
+  } catch {
+    return body ?? error.message;
+  }
+}
+
+function RequestResetForm() {
+  const [sent, setSent] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<RequestPasswordReset>({
+    resolver: zodResolver(requestPasswordResetSchema),
+    defaultValues: { username: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: RequestPasswordReset) => {
+      await apiRequest("POST", "/api/password-reset/request", data);
+    },
+    onSuccess: () => setSent(true),
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't Request Reset",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (sent) {
+    return (
+      <div className="text-center py-4 text-gray-600" data-testid="text-reset-requested">
+        <i className="fas fa-envelope text-4xl mb-4 text-gray-300"></i>
+        <p>If that account has a confirmed email address, a reset link is on its way.</p>
+        <p className="text-sm text-gray-500 mt-2">No email? Ask an admin for a reset link.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Enter your username and we'll email a reset link to your confirmed address.
+        </p>
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input {...field} placeholder="Enter your username" data-testid="input-reset-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={requestMutation.isPending} data-testid="button-request-reset">
+          {requestMutation.isPending ? "Sending..." : "Send Reset Link"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function NewPasswordForm({ token }: { token: string }) {
+  const [done, setDone] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<ResetPassword>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { token, password: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPassword) => {
+      await apiRequest("POST", "/api/password-reset", data);
+    },
+    onSuccess: () => setDone(true),
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't Reset Password",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (done) {
+    return (
+      <div className="text-center py-4 text-gray-600" data-testid="text-reset-done">
+        <p>Your password has been reset and you've been signed out everywhere.</p>
+        <Button asChild className="mt-4">
+          <Link href="/auth">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input {...field} type="password" autoComplete="new-password" placeholder="Choose a new password" data-testid="input-reset-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={resetMutation.isPending} data-testid="button-reset-password">
+          {resetMutation.isPending ? "Saving..." : "Set New Password"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center space-x-2 mb-4">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <i className="fas fa-key text-white text-sm"></i>
+            </div>
+            <span className="text-xl font-bold text-gray-900">ProofWork</span>
+          </div>
+          <CardTitle>Reset Password</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {token ? <NewPasswordForm token={token} /> : <RequestResetForm />}
+          <div className="text-center">
+            <Link href="/auth" className="text-sm text-gray-600 hover:underline">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
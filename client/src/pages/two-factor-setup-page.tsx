@@ -0,0 +1,42 @@
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import TwoFactorSettings from "@/components/two-factor-settings";
+import { ROLES } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+
+// Where staff whose role requires two-factor land until they've turned it on
+export default function TwoFactorSetupPage() {
+  const { user, logoutMutation } = useAuth();
+  const [, navigate] = useLocation();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+      <div className="w-full max-w-md space-y-4">
+        <div className="text-center">
+          <div className="flex items-center justify-center space-x-2 mb-4">
+            <div className="w-8 h-8 bg-red-600 rounded-lg flex items-center justify-center">
+              <i className="fas fa-shield-alt text-white text-sm"></i>
+            </div>
+            <span className="text-xl font-bold text-gray-900">ProofWork Admin</span>
+          </div>
+          {user && !user.twoFactorEnabledAt && (
+            <p className="text-sm text-gray-600" data-testid="text-two-factor-required">
+              {ROLES[user.role].label} accounts must turn on two-factor authentication before opening the admin dashboard.
+            </p>
+          )}
+        </div>
+
+        <TwoFactorSettings />
+
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" onClick={() => logoutMutation.mutate()} data-testid="button-logout">
+            Log Out
+          </Button>
+          <Button onClick={() => navigate("/admin")} disabled={!user?.twoFactorEnabledAt} data-testid="button-continue-admin">
+            Continue to Dashboard
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import type { Express, Request } from "express";
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { requirePermission } from "./auth";
+import { auditQuerySchema, type AuditAction, type AuditEventWithActor } from "@shared/schema";
+
+// Never written to the audit log, even when part of a changed record. Chat
+// integration URLs are credentials in their own right.
+const REDACTED_FIELDS = ["password", "secret", "tokenHash", "url"];
+const EXPORT_LIMIT = 10_000;
+
+type Snapshot = Record<string, unknown>;
+
+export interface AuditEntry {
+  action: AuditAction;
+  target?: { type: string; id: string };
+  before?: object | null;
+  after?: object | null;
+  actorId?: string | null; // Defaults to the signed-in user
+}
+
+function redact(snapshot: object): Snapshot {
+  return Object.fromEntries(Object.entries(snapshot).filter(([key]) => !REDACTED_FIELDS.includes(key)));
+}
+
+// Keeps only the fields whose values differ between the two snapshots
+function diff(before: Snapshot, after: Snapshot) {
+  const changed = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+  return {
+    before: Object.fromEntries(changed.filter(key => key in before).map(key => [key, before[key]])),
+    after: Object.fromEntries(changed.filter(key => key in after).map(key => [key, after[key]])),
+  };
+}
+
+// Records who did what, to what, and from where. Like sendNotification this
+// never throws, so callers don't need to await it.
+export async function recordAudit(req: Request, entry: AuditEntry) {
+  try {
+    let before = entry.before ? redact(entry.before) : null;
+    let after = entry.after ? redact(entry.after) : null;
+    if (before && after) {
+      ({ before, after } = diff(before, after));
+    }
+
+    await storage.recordAuditEvent({
+      actorId: entry.actorId !== undefined ? entry.actorId : req.user?.id ?? null,
+      action: entry.action,
+      targetType: entry.target?.type ?? null,
+      targetId: entry.target?.id ?? null,
+      before,
+      after,
+      ip: req.ip ?? null,
+      userAgent: req.get("user-agent") ?? null,
+    });
+  } catch (error) {
+    console.error(`Error recording audit event ${entry.action}:`, error);
+  }
+}
+
+// Quotes cells that need it, and stops spreadsheets from treating text that
+// starts with = + - @ as a formula
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : value instanceof Date ? value.toISOString() : JSON.stringify(value);
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toCsv(events: AuditEventWithActor[]) {
+  const header = ["time", "actor_id", "actor", "action", "target_type", "target_id", "before", "after", "ip", "user_agent"];
+  const rows = events.map(event => [
+    event.createdAt,
+    event.actorId,
+    event.actorUsername,
+    event.action,
+    event.targetType,
+    event.targetId,
+    event.before,
+    event.after,
+    event.ip,
+    event.userAgent,
+  ].map(csvCell).join(","));
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function setupAudit(app: Express) {
+  app.get("/api/admin/audit", requirePermission("audit.view"), async (req, res) => {
+    const query = auditQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid audit log filters" });
+    }
+
+    try {
+      const { limit, offset, ...filters } = query.data;
+      const events = await storage.getAuditEvents(filters, { limit, offset });
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // Same filters as the viewer, without paging
+  app.get("/api/admin/audit/export", requirePermission("audit.view"), async (req, res) => {
+    const query = auditQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid audit log filters" });
+    }
+
+    try {
+      const { limit, offset, ...filters } = query.data;
+      const events = await storage.getAuditEvents(filters, { limit: EXPORT_LIMIT, offset: 0 });
+      recordAudit(req, { action: "audit.exported", after: { ...filters, rows: events.length } });
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${format(new Date(), "yyyy-MM-dd")}.csv"`);
+      res.send(toCsv(events));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+}
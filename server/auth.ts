@@ -1,11 +1,16 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, RequestHandler } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { recordAudit } from "./audit";
+import { queuePasswordResetEmail } from "./email";
+import { verifySecondFactor } from "./two-factor";
+import { APP_URL } from "./config";
+import { User as SelectUser, registerUserSchema, changePasswordSchema, requestPasswordResetSchema, resetPasswordSchema, twoFactorChallengeSchema, type PasswordResetChannel } from "@shared/schema";
+import { hasPermission, needsTwoFactorSetup, ROLES, type Permission } from "@shared/permissions";
 
 declare global {
   namespace Express {
@@ -13,9 +18,20 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set between a correct password and the second factor
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+const RESET_TOKEN_TTL_MS = 60 * 60_000;
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60_000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
@@ -28,16 +44,53 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
-  const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || "dev-secret-key-change-in-production",
-    resave: false,
-    saveUninitialized: false,
-    store: storage.sessionStore,
+const sessionSettings: session.SessionOptions = {
+  secret: process.env.SESSION_SECRET || "dev-secret-key-change-in-production",
+  resave: false,
+  saveUninitialized: false,
+  store: storage.sessionStore,
+};
+
+// Issues a single-use reset link for the user, replacing any earlier one.
+// The channel records how it reaches them - emailed, or handed to an admin.
+async function createPasswordResetLink(req: Request, userId: string, channel: PasswordResetChannel) {
+  const token = randomBytes(32).toString("hex");
+  await storage.createPasswordResetToken({
+    userId,
+    tokenHash: createHash("sha256").update(token).digest("hex"),
+    channel,
+    createdBy: channel === "link" ? req.user!.id : undefined,
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+  });
+  // Never built from the Host header - the request comes from anyone, and the
+  // link is mailed to the account owner
+  return `${APP_URL}/reset-password?token=${token}`;
+}
+
+// Shared with the WebSocket upgrade handler so sockets authenticate from the same cookie
+export const sessionMiddleware = session(sessionSettings);
+
+// Route guard for staff endpoints - passes when the signed-in user's role has
+// any of the given permissions, and they've turned on two-factor if the role
+// requires it
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!permissions.some(permission => hasPermission(req.user, permission))) {
+      return res.status(403).json({ message: "You don't have permission to do this" });
+    }
+    if (needsTwoFactorSetup(req.user)) {
+      return res.status(403).json({ message: `Turn on two-factor authentication to use ${ROLES[req.user!.role].label.toLowerCase()} features` });
+    }
+    next();
   };
+}
 
+export function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -59,18 +112,26 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
+    const parsed = registerUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid username or password" });
+    }
+
+    const existingUser = await storage.getUserByUsername(parsed.data.username);
     if (existingUser) {
       return res.status(400).send("Username already exists");
     }
 
-    // Check if this is admin registration
-    const isAdminRegistration = req.body.adminCode === "ADMIN2024" && req.body.username.includes("admin");
-    
+    // Staff accounts are only created through invitations
     const user = await storage.createUser({
-      username: req.body.username,
-      password: await hashPassword(req.body.password),
-      role: isAdminRegistration ? "admin" : "user",
+      username: parsed.data.username,
+      password: await hashPassword(parsed.data.password),
+    });
+    recordAudit(req, {
+      action: "auth.registered",
+      target: { type: "user", id: user.id },
+      after: { username: user.username, role: user.role },
+      actorId: user.id,
     });
 
     req.login(user, (err) => {
@@ -79,13 +140,81 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        recordAudit(req, { action: "auth.login_failed", after: { username: req.body.username }, actorId: null });
+        return res.sendStatus(401);
+      }
+
+      // Hold the sign-in until the second factor checks out
+      if (user.twoFactorEnabledAt) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS, attempts: 0 };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        recordAudit(req, { action: "auth.logged_in", target: { type: "user", id: user.id } });
+        res.status(200).json(user);
+      });
+    })(req, res, next);
+  });
+
+  // Second sign-in step - an authenticator code or a recovery code. A 401
+  // means the challenge is gone and the password has to be entered again.
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Your sign-in expired - enter your password again" });
+    }
+
+    const parsed = twoFactorChallengeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid code" });
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      const method = user && (await verifySecondFactor(user.id, parsed.data.code));
+      if (!user || !method) {
+        pending.attempts += 1;
+        const exhausted = pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS;
+        if (exhausted) {
+          delete req.session.pendingTwoFactor;
+        }
+        recordAudit(req, {
+          action: "auth.login_failed",
+          target: { type: "user", id: pending.userId },
+          after: { username: user?.username, step: "two_factor" },
+          actorId: null,
+        });
+        return exhausted
+          ? res.status(401).json({ message: "Too many attempts - enter your password again" })
+          : res.status(400).json({ message: "Invalid code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      req.login(user, (err) => {
+        if (err) return next(err);
+        recordAudit(req, { action: "auth.logged_in", target: { type: "user", id: user.id }, after: { twoFactor: method } });
+        res.status(200).json(user);
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify code" });
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
+    // Captured first - req.user is cleared by logout
+    const user = req.user;
     req.logout((err) => {
       if (err) return next(err);
+      if (user) {
+        recordAudit(req, { action: "auth.logged_out", target: { type: "user", id: user.id }, actorId: user.id });
+      }
       res.sendStatus(200);
     });
   });
@@ -94,4 +223,90 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
+
+  // Change your own password - every other session is signed out
+  app.put("/api/user/password", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const parsed = changePasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid password" });
+    }
+
+    try {
+      if (!(await comparePasswords(parsed.data.currentPassword, req.user!.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUserPassword(req.user!.id, await hashPassword(parsed.data.newPassword));
+      await storage.deleteUserSessions(req.user!.id, req.sessionID);
+      recordAudit(req, { action: "auth.password_changed", target: { type: "user", id: req.user!.id } });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // Emails a reset link to the account's verified address. The response is
+  // the same whether or not the account exists, so it can't be used to probe
+  // for usernames.
+  app.post("/api/password-reset/request", async (req, res) => {
+    const parsed = requestPasswordResetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Enter your username" });
+    }
+
+    try {
+      const user = await storage.getUserByUsername(parsed.data.username);
+      if (user?.email && user.emailVerifiedAt) {
+        await queuePasswordResetEmail(user, await createPasswordResetLink(req, user.id, "email"));
+        recordAudit(req, { action: "auth.password_reset_requested", target: { type: "user", id: user.id }, after: { channel: "email" }, actorId: null });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  // For users without a verified email - the admin passes the link on
+  app.post("/api/admin/users/:id/password-reset", requirePermission("users.reset_passwords"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const url = await createPasswordResetLink(req, user.id, "link");
+      recordAudit(req, { action: "auth.password_reset_requested", target: { type: "user", id: user.id }, after: { channel: "link" } });
+      res.status(201).json({ url, expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create reset link" });
+    }
+  });
+
+  // Sets a new password from a reset link and signs the account out everywhere
+  app.post("/api/password-reset", async (req, res) => {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid password" });
+    }
+
+    try {
+      const user = await storage.resetPassword(
+        createHash("sha256").update(parsed.data.token).digest("hex"),
+        await hashPassword(parsed.data.password)
+      );
+      if (!user) {
+        return res.status(410).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.deleteUserSessions(user.id);
+      recordAudit(req, { action: "auth.password_reset", target: { type: "user", id: user.id }, actorId: user.id });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
 }
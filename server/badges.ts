@@ -0,0 +1,42 @@
+import { storage } from "./storage";
+import { BADGES, type BadgeDefinition, type BadgeRule } from "@shared/schema";
+
+interface BadgeProgress {
+  approvedCounts: Record<string, number>;
+  earnedPoints: number;
+}
+
+function isRuleMet(rule: BadgeRule, progress: BadgeProgress): boolean {
+  switch (rule.kind) {
+    case "approved_tasks": {
+      const approved = rule.taskType
+        ? progress.approvedCounts[rule.taskType] || 0
+        : Object.values(progress.approvedCounts).reduce((sum, count) => sum + count, 0);
+      return approved >= rule.count;
+    }
+    case "earned_points":
+      return progress.earnedPoints >= rule.points;
+  }
+}
+
+// Awards every badge the user now qualifies for and returns the newly earned ones
+export async function awardEarnedBadges(userId: string, taskId: string): Promise<BadgeDefinition[]> {
+  const held = new Set((await storage.getUserBadges(userId)).map(badge => badge.badgeId));
+  const candidates = BADGES.filter(badge => !held.has(badge.id));
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const progress: BadgeProgress = {
+    approvedCounts: await storage.getApprovedTaskCounts(userId),
+    earnedPoints: await storage.getEarnedPoints(userId),
+  };
+
+  const earned: BadgeDefinition[] = [];
+  for (const badge of candidates) {
+    if (isRuleMet(badge.rule, progress) && await storage.awardBadge(userId, badge.id, taskId)) {
+      earned.push(badge);
+    }
+  }
+  return earned;
+}
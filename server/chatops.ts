@@ -0,0 +1,255 @@
+import type { Express } from "express";
+import type { Server } from "http";
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { requirePermission } from "./auth";
+import { APP_URL } from "./config";
+import { recordAudit } from "./audit";
+import {
+  insertChatIntegrationSchema,
+  updateChatIntegrationSchema,
+  type ChatEvent,
+  type ChatIntegration,
+} from "@shared/schema";
+
+// Platform-neutral message, rendered for Slack or Discord when posted
+export interface ChatMessage {
+  title: string;
+  text: string;
+  link?: { label: string; url: string };
+  fields?: { name: string; value: string }[];
+  color?: number; // Discord embed / Slack attachment bar, as 0xRRGGBB
+}
+
+const POST_TIMEOUT_MS = 10_000;
+const SNAPSHOT_CHECK_INTERVAL_MS = 60_000;
+// Local hour of day (0-23) after which the daily leaderboard snapshot is posted
+const LEADERBOARD_SNAPSHOT_HOUR = parseInt(process.env.CHATOPS_LEADERBOARD_HOUR || "9", 10);
+
+const COLORS = {
+  info: 0x2563eb,
+  success: 0x16a34a,
+  leaderboard: 0xeab308,
+};
+
+// Incoming-webhook URLs are bearer credentials - anyone holding one can post
+// to the channel - so the API only shows the host and last 4 characters
+function maskUrl(url: string) {
+  try {
+    return `https://${new URL(url).host}/…${url.slice(-4)}`;
+  } catch {
+    return "…";
+  }
+}
+
+function withMaskedUrl(integration: ChatIntegration): ChatIntegration {
+  return { ...integration, url: maskUrl(integration.url) };
+}
+
+// Slack mrkdwn treats these three characters as control characters
+function escapeSlack(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function toSlack(message: ChatMessage) {
+  const link = message.link ? `\n<${message.link.url}|${escapeSlack(message.link.label)}>` : "";
+  return {
+    text: `${message.title}: ${message.text}`, // Notification fallback
+    attachments: [{
+      color: `#${(message.color ?? COLORS.info).toString(16).padStart(6, "0")}`,
+      blocks: [
+        {
+          type: "section",
+          text: { type: "mrkdwn", text: `*${escapeSlack(message.title)}*\n${escapeSlack(message.text)}${link}` },
+        },
+        ...(message.fields?.length ? [{
+          type: "section",
+          fields: message.fields.map(field => ({ type: "mrkdwn", text: `*${escapeSlack(field.name)}*\n${escapeSlack(field.value)}` })),
+        }] : []),
+      ],
+    }],
+  };
+}
+
+function toDiscord(message: ChatMessage) {
+  return {
+    embeds: [{
+      title: message.title,
+      description: message.link ? `${message.text}\n[${message.link.label}](${message.link.url})` : message.text,
+      url: message.link?.url,
+      color: message.color ?? COLORS.info,
+      fields: message.fields?.map(field => ({ name: field.name, value: field.value, inline: true })),
+    }],
+    allowed_mentions: { parse: [] }, // Never ping anyone from user-provided text
+  };
+}
+
+// Posts one message and records the outcome on the integration
+async function post(integration: ChatIntegration, message: ChatMessage): Promise<string | null> {
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(integration.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(integration.platform === "slack" ? toSlack(message) : toDiscord(message)),
+      signal: AbortSignal.timeout(POST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      error = `${integration.platform} responded with ${response.status} ${response.statusText}`.trim();
+    }
+  } catch (postError) {
+    error = postError instanceof Error ? postError.message : String(postError);
+  }
+
+  if (error) {
+    console.error(`Chat integration ${integration.id} failed to post:`, error);
+  }
+  await storage.recordChatPost(integration.id, error);
+  return error;
+}
+
+// Posts the message to every active integration subscribed to the event.
+// Never throws, so callers don't need to await it.
+export async function postChatEvent(event: ChatEvent, message: ChatMessage) {
+  try {
+    const integrations = await storage.getSubscribedChatIntegrations(event);
+    await Promise.all(integrations.map(integration => post(integration, message)));
+  } catch (error) {
+    console.error(`Error posting chat event ${event}:`, error);
+  }
+}
+
+export function taskSubmittedMessage(username: string, task: { title: string; type: string; points: number }): ChatMessage {
+  return {
+    title: "New task submitted",
+    text: `${username} submitted "${task.title}" for review.`,
+    link: { label: "Review it in the admin dashboard", url: `${APP_URL}/admin` },
+    fields: [
+      { name: "Type", value: task.type.replace(/_/g, " ") },
+      { name: "Points", value: task.points.toString() },
+    ],
+    color: COLORS.info,
+  };
+}
+
+export function taskApprovedMessage(username: string, task: { title: string }, points: number): ChatMessage {
+  return {
+    title: "Task approved",
+    text: `${username}'s task "${task.title}" was approved.`,
+    fields: [{ name: "Points awarded", value: points.toString() }],
+    color: COLORS.success,
+  };
+}
+
+// Top 10 for the running season, or all time when no season is active
+async function leaderboardMessage(): Promise<ChatMessage> {
+  const season = await storage.getActiveSeason();
+  const leaderboard = await storage.getLeaderboard(10, season ? { from: season.startsAt, to: season.endsAt } : undefined);
+  const medals = ["🥇", "🥈", "🥉"];
+  const lines = leaderboard.map((user, index) =>
+    `${medals[index] ?? `${index + 1}.`} ${user.username} - ${user.points.toLocaleString()} pts`
+  );
+
+  return {
+    title: `Leaderboard - ${format(new Date(), "MMM dd, yyyy")}`,
+    text: lines.length > 0
+      ? `${season ? `Standings for ${season.name}` : "All-time standings"}:\n${lines.join("\n")}`
+      : "Nobody has earned points yet.",
+    link: { label: "See the full leaderboard", url: APP_URL },
+    color: COLORS.leaderboard,
+  };
+}
+
+// Posts the daily snapshot once the configured hour has passed. The claim is
+// atomic, so with several server instances only one of them posts it.
+async function postDailyLeaderboard() {
+  const now = new Date();
+  if (now.getHours() < LEADERBOARD_SNAPSHOT_HOUR) return;
+
+  try {
+    const integrations = await storage.claimDailyLeaderboardPosts(format(now, "yyyy-MM-dd"));
+    if (integrations.length === 0) return;
+
+    const message = await leaderboardMessage();
+    await Promise.all(integrations.map(integration => post(integration, message)));
+  } catch (error) {
+    console.error('Error posting daily leaderboard:', error);
+  }
+}
+
+export function setupChatOps(app: Express, httpServer: Server) {
+  const snapshotTimer = setInterval(postDailyLeaderboard, SNAPSHOT_CHECK_INTERVAL_MS);
+  httpServer.on('close', () => clearInterval(snapshotTimer));
+
+  app.get("/api/admin/chat-integrations", requirePermission("integrations.view"), async (req, res) => {
+    try {
+      const integrations = await storage.getChatIntegrations();
+      res.json(integrations.map(withMaskedUrl));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chat integrations" });
+    }
+  });
+
+  app.post("/api/admin/chat-integrations", requirePermission("integrations.manage"), async (req, res) => {
+    try {
+      const validatedData = insertChatIntegrationSchema.parse(req.body);
+      const integration = await storage.createChatIntegration({
+        ...validatedData,
+        createdBy: req.user!.id,
+      });
+      recordAudit(req, { action: "chat_integration.created", target: { type: "chat_integration", id: integration.id }, after: integration });
+      res.status(201).json(withMaskedUrl(integration));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid chat integration data" });
+    }
+  });
+
+  app.patch("/api/admin/chat-integrations/:id", requirePermission("integrations.manage"), async (req, res) => {
+    try {
+      const validatedData = updateChatIntegrationSchema.parse(req.body);
+      const before = await storage.getChatIntegrationById(req.params.id);
+      const integration = await storage.updateChatIntegration(req.params.id, validatedData);
+      if (!integration) {
+        return res.status(404).json({ message: "Chat integration not found" });
+      }
+      recordAudit(req, { action: "chat_integration.updated", target: { type: "chat_integration", id: integration.id }, before, after: integration });
+      res.json(withMaskedUrl(integration));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid chat integration data" });
+    }
+  });
+
+  app.delete("/api/admin/chat-integrations/:id", requirePermission("integrations.manage"), async (req, res) => {
+    try {
+      const before = await storage.getChatIntegrationById(req.params.id);
+      const deleted = await storage.deleteChatIntegration(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Chat integration not found" });
+      }
+      recordAudit(req, { action: "chat_integration.deleted", target: { type: "chat_integration", id: req.params.id }, before });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete chat integration" });
+    }
+  });
+
+  // Posts a sample message - the current leaderboard - so admins can check
+  // the URL and formatting
+  app.post("/api/admin/chat-integrations/:id/test", requirePermission("integrations.manage"), async (req, res) => {
+    try {
+      const integration = await storage.getChatIntegrationById(req.params.id);
+      if (!integration) {
+        return res.status(404).json({ message: "Chat integration not found" });
+      }
+
+      const error = await post(integration, await leaderboardMessage());
+      if (error) {
+        return res.status(502).json({ message: error });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send test message" });
+    }
+  });
+}
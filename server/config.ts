@@ -0,0 +1,3 @@
+// Public base URL of the app, for links in emails and chat messages that
+// aren't built from an incoming request
+export const APP_URL = process.env.APP_URL || `http://localhost:${process.env.PORT || "5000"}`;
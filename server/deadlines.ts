@@ -0,0 +1,91 @@
+import type { Express } from "express";
+import type { Server } from "http";
+import { formatDistanceToNow } from "date-fns";
+import { storage } from "./storage";
+import type { TaskReminder } from "@shared/schema";
+
+const CHECK_INTERVAL_MS = 60_000;
+
+// Reminders sent to the assignee ahead of a deadline, earliest first. A task
+// only gets the reminder for the window it is currently in, so after downtime
+// it isn't sent a burst of stale ones, and a task assigned inside a window
+// skips that window's reminder.
+const REMINDERS: { reminder: TaskReminder; leadMs: number }[] = [
+  { reminder: "due_48h", leadMs: 48 * 60 * 60_000 },
+  { reminder: "due_4h", leadMs: 4 * 60 * 60_000 },
+];
+
+let checking = false;
+
+async function remindAssignees(app: Express, now: Date) {
+  for (let index = 0; index < REMINDERS.length; index++) {
+    const { reminder, leadMs } = REMINDERS[index];
+    const next = REMINDERS[index + 1];
+    const due = await storage.getTasksAwaitingReminder(reminder, {
+      dueAfter: new Date(now.getTime() + (next?.leadMs ?? 0)),
+      dueBefore: new Date(now.getTime() + leadMs),
+      leadMs,
+    });
+
+    for (const task of due) {
+      if (!await storage.claimTaskReminder(task.id, reminder)) continue;
+
+      await app.locals.sendNotification(task.assignedTo, {
+        type: 'task_deadline',
+        title: 'Deadline Approaching',
+        message: `"${task.title}" is due in ${formatDistanceToNow(task.deadline!)}.`,
+        taskId: task.id,
+        deadline: task.deadline!.toISOString(),
+      });
+    }
+  }
+}
+
+// Moves tasks past their deadline to overdue (or expired) and tells the admin
+// who assigned each one
+async function markOverdue(app: Express, now: Date) {
+  const overdue = await storage.markOverdueTasks(now);
+
+  for (const task of overdue) {
+    const assignee = task.assignedTo ? await storage.getUser(task.assignedTo) : undefined;
+    const username = assignee?.username ?? "The assignee";
+    const notification = {
+      type: 'task_overdue' as const,
+      title: task.status === 'expired' ? 'Task Expired' : 'Task Overdue',
+      message: task.status === 'expired'
+        ? `${username} missed the deadline for "${task.title}" and the task has expired.`
+        : `${username} missed the deadline for "${task.title}". It can still be completed${task.latePenaltyPercent > 0 ? ` with a ${task.latePenaltyPercent}% penalty` : ""}.`,
+      taskId: task.id,
+      deadline: task.deadline!.toISOString(),
+    };
+
+    // Tasks assigned before assignedBy was recorded go to everyone who can assign
+    if (task.assignedBy) {
+      await app.locals.sendNotification(task.assignedBy, notification);
+    } else {
+      await app.locals.notifyStaff("tasks.assign", notification);
+    }
+  }
+}
+
+// Each reminder is claimed in the database before it is sent, and a task only
+// turns overdue once, so restarts and other server instances never notify twice
+async function checkDeadlines(app: Express) {
+  if (checking) return;
+  checking = true;
+
+  try {
+    const now = new Date();
+    await remindAssignees(app, now);
+    await markOverdue(app, now);
+  } catch (error) {
+    console.error('Error checking task deadlines:', error);
+  } finally {
+    checking = false;
+  }
+}
+
+export function setupDeadlineReminders(app: Express, httpServer: Server) {
+  const timer = setInterval(() => checkDeadlines(app), CHECK_INTERVAL_MS);
+  httpServer.on('close', () => clearInterval(timer));
+}
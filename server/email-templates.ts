@@ -0,0 +1,105 @@
+import { format } from "date-fns";
+import type { NotificationEvent, NotificationEventType } from "@shared/protocol";
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const APP_NAME = "ProofWork";
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDeadline(deadline: string) {
+  return format(new Date(deadline), "MMM dd, yyyy 'at' HH:mm");
+}
+
+// Wraps paragraphs and an optional call-to-action in the shared layout.
+// Paragraphs are plain text and escaped for the HTML part.
+function layout(subject: string, paragraphs: string[], action?: { label: string; url: string }): RenderedEmail {
+  const text = [
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    `— ${APP_NAME}`,
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(subject)}</h1>
+      ${paragraphs.map(p => `<p style="margin:0 0 16px;line-height:1.5;">${escapeHtml(p)}</p>`).join("\n      ")}
+      ${action ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="background:#2563eb;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;">${escapeHtml(action.label)}</a></p>` : ""}
+      <p style="margin:24px 0 0;font-size:12px;color:#6b7280;">— ${APP_NAME}</p>
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+type NotificationTemplates = {
+  [T in NotificationEventType]?: (event: Extract<NotificationEvent, { type: T }>, appUrl: string) => RenderedEmail;
+};
+
+// Events that are also sent by email - anything missing here is WebSocket-only
+const notificationTemplates: NotificationTemplates = {
+  task_assigned: (event, appUrl) => layout(
+    event.title,
+    [event.message, `Deadline: ${formatDeadline(event.deadline)}`],
+    { label: "View your tasks", url: appUrl },
+  ),
+  task_reviewed: (event, appUrl) => layout(
+    event.title,
+    [event.message],
+    { label: event.status === "approved" ? "See your points" : "View the task", url: appUrl },
+  ),
+  task_deadline: (event, appUrl) => layout(
+    event.title,
+    [event.message, `Deadline: ${formatDeadline(event.deadline)}`],
+    { label: "Complete the task", url: appUrl },
+  ),
+  task_overdue: (event, appUrl) => layout(
+    event.title,
+    [event.message, `Deadline: ${formatDeadline(event.deadline)}`],
+    { label: "Open the admin dashboard", url: `${appUrl}/admin` },
+  ),
+};
+
+// Returns undefined for events that have no email template
+export function renderNotificationEmail(event: NotificationEvent, appUrl: string): RenderedEmail | undefined {
+  const template = notificationTemplates[event.type] as ((event: NotificationEvent, appUrl: string) => RenderedEmail) | undefined;
+  return template?.(event, appUrl);
+}
+
+export function renderVerificationEmail(username: string, verifyUrl: string): RenderedEmail {
+  return layout(
+    "Confirm your email address",
+    [
+      `Hi ${username},`,
+      `Confirm this address to receive ${APP_NAME} notifications by email. The link expires in 24 hours.`,
+      "If you didn't ask for this, you can ignore this email.",
+    ],
+    { label: "Confirm email", url: verifyUrl },
+  );
+}
+
+export function renderPasswordResetEmail(username: string, resetUrl: string): RenderedEmail {
+  return layout(
+    "Reset your password",
+    [
+      `Hi ${username},`,
+      `Someone asked to reset the password for your ${APP_NAME} account. The link expires in 1 hour and can be used once.`,
+      "If you didn't ask for this, you can ignore this email - your password won't change.",
+    ],
+    { label: "Reset password", url: resetUrl },
+  );
+}
@@ -0,0 +1,251 @@
+import type { Express } from "express";
+import type { Server } from "http";
+import { createHash, randomBytes } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import nodemailer from "nodemailer";
+import { storage } from "./storage";
+import { APP_URL } from "./config";
+import { renderNotificationEmail, renderPasswordResetEmail, renderVerificationEmail, type RenderedEmail } from "./email-templates";
+import { updateEmailSchema, type OutboxEmail, type User } from "@shared/schema";
+import type { NotificationEvent } from "@shared/protocol";
+
+export interface EmailTransport {
+  name: string;
+  send(email: OutboxEmail): Promise<void>;
+}
+
+const EMAIL_FROM = process.env.EMAIL_FROM || "ProofWork <no-reply@proofwork.local>";
+
+const OUTBOX_POLL_INTERVAL_MS = 15_000;
+const OUTBOX_BATCH_SIZE = 10;
+// How long a claimed email is hidden from other instances while it is sent
+const OUTBOX_LEASE_MS = 5 * 60_000;
+const MAX_SEND_ATTEMPTS = 6;
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60_000;
+
+function smtpTransport(): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587", 10),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    send: async (email) => {
+      await transporter.sendMail({
+        from: EMAIL_FROM,
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      });
+    },
+  };
+}
+
+// Writes each email as an .eml file - handy for previewing templates in development
+function fileTransport(): EmailTransport {
+  const dir = process.env.EMAIL_FILE_DIR || path.join(os.tmpdir(), "proofwork-emails");
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  return {
+    name: `file (${dir})`,
+    send: async (email) => {
+      const info = await transporter.sendMail({
+        from: EMAIL_FROM,
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      });
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, `${Date.now()}-${email.id}.eml`), info.message as Buffer);
+    },
+  };
+}
+
+function consoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    send: async (email) => {
+      console.log(`[email] To: ${email.to}\n[email] Subject: ${email.subject}\n${email.text}`);
+    },
+  };
+}
+
+// EMAIL_TRANSPORT picks the transport explicitly; otherwise SMTP is used
+// when configured, emails are logged to the console in development and
+// email is turned off in production. The console transport prints reset and
+// verification links, so production refuses to start with it. With email
+// off (EMAIL_TRANSPORT=none) nothing is queued.
+function createTransport(): EmailTransport | null {
+  const production = process.env.NODE_ENV === "production";
+  const kind = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : production ? "none" : "console");
+  if (kind === "console" && production) {
+    throw new Error("The console email transport can't be used in production - set SMTP_HOST or EMAIL_TRANSPORT");
+  }
+  switch (kind) {
+    case "smtp":
+      return smtpTransport();
+    case "file":
+      return fileTransport();
+    case "console":
+      return consoleTransport();
+    case "none":
+      console.warn("Email is turned off - set SMTP_HOST or EMAIL_TRANSPORT to send it");
+      return null;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+const transport = createTransport();
+
+// Retry after 1, 2, 4, 8... minutes, capped at an hour
+function retryDelayMs(attempts: number) {
+  return Math.min(60_000 * 2 ** (attempts - 1), 60 * 60_000);
+}
+
+let draining = false;
+
+// Sends everything that is due; concurrent calls within this instance are
+// collapsed into the one already running
+async function drainOutbox() {
+  if (draining || !transport) return;
+  draining = true;
+
+  try {
+    while (true) {
+      const batch = await storage.claimDueEmails(OUTBOX_BATCH_SIZE, OUTBOX_LEASE_MS);
+      if (batch.length === 0) break;
+
+      for (const email of batch) {
+        try {
+          await transport.send(email);
+          await storage.markEmailSent(email.id);
+        } catch (error) {
+          const attempts = email.attempts + 1;
+          const retryAt = attempts < MAX_SEND_ATTEMPTS ? new Date(Date.now() + retryDelayMs(attempts)) : null;
+          console.error(`Failed to send email ${email.id} (attempt ${attempts}):`, error);
+          await storage.markEmailFailed(email.id, error instanceof Error ? error.message : String(error), retryAt);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Error draining email outbox:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+// Returns whether the email was queued, which it isn't while email is off
+async function queueEmail(userId: string, to: string, email: RenderedEmail) {
+  if (!transport) return false;
+
+  await storage.enqueueEmail({ userId, to, ...email });
+  drainOutbox();
+  return true;
+}
+
+// Emails a notification to the user if the event has a template and they
+// have a verified address
+export async function queueNotificationEmail(userId: string, event: NotificationEvent) {
+  const rendered = renderNotificationEmail(event, APP_URL);
+  if (!rendered) return;
+
+  const user = await storage.getUser(userId);
+  if (!user?.email || !user.emailVerifiedAt) return;
+
+  await queueEmail(user.id, user.email, rendered);
+}
+
+// Reset links only go to a verified address. Returns whether one was queued.
+export async function queuePasswordResetEmail(user: User, resetUrl: string) {
+  if (!user.email || !user.emailVerifiedAt) return false;
+
+  return await queueEmail(user.id, user.email, renderPasswordResetEmail(user.username, resetUrl));
+}
+
+async function sendVerificationEmail(user: User & { email: string }) {
+  const token = randomBytes(32).toString("hex");
+  await storage.createEmailVerificationToken({
+    userId: user.id,
+    email: user.email,
+    tokenHash: createHash("sha256").update(token).digest("hex"),
+    expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS),
+  });
+
+  const verifyUrl = `${APP_URL}/api/user/email/verify?token=${token}`;
+  await queueEmail(user.id, user.email, renderVerificationEmail(user.username, verifyUrl));
+}
+
+export function setupEmail(app: Express, httpServer: Server) {
+  const poll = setInterval(drainOutbox, OUTBOX_POLL_INTERVAL_MS);
+  httpServer.on('close', () => clearInterval(poll));
+  drainOutbox();
+
+  // Set or change the address - it has to be confirmed before emails are sent to it
+  app.put("/api/user/email", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { email } = updateEmailSchema.parse(req.body);
+      const user = await storage.updateUserEmail(req.user!.id, email);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await sendVerificationEmail({ ...user, email });
+      res.json(user);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(400).json({ message: "Invalid email" });
+      }
+    }
+  });
+
+  app.post("/api/user/email/resend", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const user = req.user!;
+    if (!user.email) {
+      return res.status(400).json({ message: "Add an email address first" });
+    }
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ message: "Email is already verified" });
+    }
+
+    try {
+      await sendVerificationEmail({ ...user, email: user.email });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  // Opened from the emailed link, possibly in a browser without a session
+  app.get("/api/user/email/verify", async (req, res) => {
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+
+    try {
+      const user = token
+        ? await storage.verifyEmail(createHash("sha256").update(token).digest("hex"))
+        : undefined;
+      res.redirect(`/?emailVerified=${user ? "1" : "0"}`);
+    } catch (error) {
+      res.redirect("/?emailVerified=0");
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +38,13 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Leaderboards and stats count ledger entries, so balances from before the
+  // points ledger are carried over before anything is served
+  const carriedOver = await storage.carryOverOpeningBalances();
+  if (carriedOver > 0) {
+    log(`carried over ${carriedOver} pre-ledger point balances`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
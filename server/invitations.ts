@@ -0,0 +1,119 @@
+import type { Express } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { hashPassword, requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import { APP_URL } from "./config";
+import { insertInvitationSchema, registerUserSchema, invitationStatus, type InvitationStatus } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+const unavailableMessages: Record<Exclude<InvitationStatus, "pending">, string> = {
+  used: "This invitation has already been used",
+  revoked: "This invitation has been revoked",
+  expired: "This invitation has expired",
+};
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function setupInvitations(app: Express) {
+  app.get("/api/admin/invitations", requirePermission("users.invite"), async (req, res) => {
+    try {
+      const allInvitations = await storage.getInvitations();
+      res.json(allInvitations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  // The link is only returned here - the server keeps a hash of its token
+  app.post("/api/admin/invitations", requirePermission("users.invite"), async (req, res) => {
+    try {
+      const { role, note, expiresInDays } = insertInvitationSchema.parse(req.body);
+      const token = randomBytes(32).toString("hex");
+      const invitation = await storage.createInvitation({
+        tokenHash: hashToken(token),
+        role,
+        note: note || undefined,
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + expiresInDays * DAY_MS),
+      });
+      recordAudit(req, { action: "invitation.created", target: { type: "invitation", id: invitation.id }, after: { role, note, expiresAt: invitation.expiresAt } });
+
+      res.status(201).json({ ...invitation, url: `${APP_URL}/invite/${token}` });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid invitation data" });
+    }
+  });
+
+  app.post("/api/admin/invitations/:id/revoke", requirePermission("users.invite"), async (req, res) => {
+    try {
+      const invitation = await storage.revokeInvitation(req.params.id);
+      if (!invitation) {
+        return res.status(404).json({ message: "Pending invitation not found" });
+      }
+      recordAudit(req, { action: "invitation.revoked", target: { type: "invitation", id: invitation.id } });
+      res.json(invitation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // Public - lets the acceptance screen show the role before signing up
+  app.get("/api/invitations/:token", async (req, res) => {
+    try {
+      const invitation = await storage.getInvitationByTokenHash(hashToken(req.params.token));
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const status = invitationStatus(invitation);
+      if (status !== "pending") {
+        return res.status(410).json({ message: unavailableMessages[status] });
+      }
+      res.json({ role: invitation.role, expiresAt: invitation.expiresAt });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  // Creates the account with the invitation's role and signs it in
+  app.post("/api/invitations/:token/accept", async (req, res, next) => {
+    const parsed = registerUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid username or password" });
+    }
+
+    try {
+      const existingUser = await storage.getUserByUsername(parsed.data.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const tokenHash = hashToken(req.params.token);
+      const invitation = await storage.getInvitationByTokenHash(tokenHash);
+      const user = await storage.acceptInvitation(tokenHash, {
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+      if (!invitation || !user) {
+        return res.status(410).json({ message: "This invitation is no longer valid" });
+      }
+      recordAudit(req, {
+        action: "invitation.accepted",
+        target: { type: "invitation", id: invitation.id },
+        after: { userId: user.id, username: user.username, role: user.role },
+        actorId: user.id,
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+}
@@ -0,0 +1,371 @@
+import type { Express, Request, Response } from "express";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { sessionMiddleware, requirePermission } from "./auth";
+import { storage } from "./storage";
+import { publish, subscribe } from "./pubsub";
+import { queueNotificationEmail } from "./email";
+import { recordAudit } from "./audit";
+import { updateNotificationPreferencesSchema, type Notification, type NotificationPreference, type User } from "@shared/schema";
+import { hasPermission, isStaff, type Permission } from "@shared/permissions";
+import { z } from "zod";
+import {
+  PROTOCOL_VERSION,
+  NOTIFICATION_EVENTS,
+  notificationEventSchema,
+  notificationEventTypeSchema,
+  serverMessageSchema,
+  type NotificationEvent,
+  type NotificationEventType,
+  type ServerMessage,
+} from "@shared/protocol";
+
+// Resolves the logged-in user from the express-session cookie on the upgrade request
+function authenticateUpgrade(request: IncomingMessage): Promise<User | undefined> {
+  return new Promise((resolve) => {
+    const req = request as Request;
+    sessionMiddleware(req, {} as Response, async () => {
+      try {
+        const userId = (req.session as { passport?: { user?: string } } | undefined)?.passport?.user;
+        resolve(userId ? await storage.getUser(userId) : undefined);
+      } catch (error) {
+        console.error('WebSocket authentication error:', error);
+        resolve(undefined);
+      }
+    });
+  });
+}
+
+// Notifications are broadcast to every server instance, each of which
+// delivers to the sockets it holds
+const NOTIFICATION_CHANNEL = "notifications";
+
+const broadcastSchema = z.object({
+  userId: z.string(),
+  message: serverMessageSchema,
+});
+
+// How often sockets are pinged; a socket that misses one pong is evicted
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Rebuilds the wire message for a stored notification
+function toServerMessage(stored: Notification, event: NotificationEvent, toast: boolean): ServerMessage {
+  return {
+    kind: 'notification',
+    v: PROTOCOL_VERSION,
+    id: stored.id,
+    timestamp: stored.createdAt.toISOString(),
+    toast,
+    event,
+  };
+}
+
+// Channels for event types that neither the user nor an admin has configured
+function builtInPreference(eventType: NotificationEventType): NotificationPreference {
+  return { eventType, toast: true, inbox: true, email: NOTIFICATION_EVENTS[eventType].email };
+}
+
+// Every event type's channels: the user's own choice, else the admin default,
+// else the built-in one. Pass no user to resolve just the defaults.
+async function resolvePreferences(userId?: string): Promise<NotificationPreference[]> {
+  const [defaults, own] = await Promise.all([
+    storage.getNotificationDefaults(),
+    userId ? storage.getNotificationPreferences(userId) : Promise.resolve([]),
+  ]);
+
+  return notificationEventTypeSchema.options.map(eventType =>
+    own.find(preference => preference.eventType === eventType)
+      ?? defaults.find(preference => preference.eventType === eventType)
+      ?? builtInPreference(eventType)
+  );
+}
+
+// Preferences a user may see and change - staff-only events are hidden from
+// regular users, and email is switched off for events without a template
+function visiblePreferences(preferences: NotificationPreference[], user: User) {
+  return preferences
+    .filter(preference => isStaff(user) || !NOTIFICATION_EVENTS[preference.eventType].staffOnly)
+    .map(preference => ({
+      ...preference,
+      email: preference.email && NOTIFICATION_EVENTS[preference.eventType].email,
+    }));
+}
+
+function rejectUpgrade(socket: Duplex) {
+  socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+  socket.destroy();
+}
+
+export function setupNotifications(app: Express, httpServer: Server) {
+  // WebSocket server for real-time notifications - upgrades are handled
+  // manually so only authenticated sessions get a socket
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Connected sockets by user ID - a user may have several tabs open
+  const clients = new Map<string, Set<WebSocket>>();
+  const alive = new WeakSet<WebSocket>();
+
+  const removeClient = (userId: string, ws: WebSocket) => {
+    const sockets = clients.get(userId);
+    if (!sockets) return;
+    sockets.delete(ws);
+    if (sockets.size === 0) {
+      clients.delete(userId);
+    }
+  };
+
+  const send = (ws: WebSocket, message: ServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  // Fans a message out to every open socket of the user
+  const deliver = (userId: string, message: ServerMessage) => {
+    clients.get(userId)?.forEach(client => send(client, message));
+  };
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.has(ws)) {
+        // terminate() fires 'close', which removes the socket from clients
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const unsubscribe = subscribe(NOTIFICATION_CHANNEL, (payload) => {
+    const broadcast = broadcastSchema.safeParse(payload);
+    if (!broadcast.success) {
+      console.error('Ignoring malformed notification broadcast:', broadcast.error.issues);
+      return;
+    }
+    deliver(broadcast.data.userId, broadcast.data.message);
+  });
+
+  httpServer.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  httpServer.on('upgrade', async (request, socket, head) => {
+    // Other upgrades are only expected in development, where Vite's HMR
+    // listener answers them. Anywhere else nothing would, so drop the socket.
+    if (new URL(request.url || '/', 'http://localhost').pathname !== '/ws') {
+      if (app.get("env") !== "development") {
+        socket.destroy();
+      }
+      return;
+    }
+
+    const user = await authenticateUpgrade(request);
+    if (!user) {
+      return rejectUpgrade(socket);
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      wss.emit('connection', ws, request, user);
+    });
+  });
+
+  // Greets a new socket with the current cursor and, when it reconnects with
+  // ?since=<cursor>, replays whatever it missed while disconnected. The socket
+  // is already registered, so anything created meanwhile is also delivered
+  // live - clients drop duplicates by ID.
+  const greet = async (ws: WebSocket, userId: string, since: string | null) => {
+    try {
+      const latest = await storage.getLatestNotification(userId);
+      send(ws, { kind: 'hello', v: PROTOCOL_VERSION, cursor: latest?.id ?? null });
+
+      if (!since) return;
+
+      const [missed, preferences] = await Promise.all([
+        storage.getNotificationsSince(userId, since),
+        resolvePreferences(userId),
+      ]);
+      for (const stored of missed) {
+        const event = notificationEventSchema.safeParse({
+          ...stored.data,
+          type: stored.type,
+          title: stored.title,
+          message: stored.message,
+        });
+        // Rows written under an older protocol are left to the inbox
+        if (event.success) {
+          const toast = preferences.find(preference => preference.eventType === event.data.type)?.toast ?? true;
+          send(ws, toServerMessage(stored, event.data, toast));
+        }
+      }
+    } catch (error) {
+      console.error('Error replaying notifications:', error);
+    }
+  };
+
+  wss.on('connection', (ws: WebSocket, request: IncomingMessage, user: User) => {
+    const sockets = clients.get(user.id) ?? new Set<WebSocket>();
+    sockets.add(ws);
+    clients.set(user.id, sockets);
+    alive.add(ws);
+
+    const since = new URL(request.url || '/', 'http://localhost').searchParams.get('since');
+    greet(ws, user.id, since);
+
+    ws.on('pong', () => alive.add(ws));
+
+    ws.on('close', () => removeClient(user.id, ws));
+
+    ws.on('error', (error) => {
+      console.error('WebSocket error:', error);
+      ws.terminate();
+    });
+  });
+
+  // Helper function to send notifications - validated against the shared
+  // protocol and routed to the channels the user chose for the event type.
+  // Notifications are stored before they are pushed so users who are offline
+  // still see them next time they log in.
+  app.locals.sendNotification = async (userId: string | null | undefined, notification: NotificationEvent) => {
+    if (!userId) return;
+
+    try {
+      const event = notificationEventSchema.parse(notification);
+      const preferences = await resolvePreferences(userId);
+      const channels = preferences.find(preference => preference.eventType === event.type) ?? builtInPreference(event.type);
+
+      if (channels.toast || channels.inbox) {
+        // Toast-only notifications are stored too, outside the inbox, so a
+        // reconnecting client can still have them replayed
+        const { type, title, message, ...data } = event;
+        const stored = await storage.createNotification({ userId, type, title, message, data, inbox: channels.inbox });
+
+        // Delivered by whichever instances hold the user's sockets - if the
+        // broadcast fails the notification is still waiting in the inbox
+        const broadcast: z.infer<typeof broadcastSchema> = { userId, message: toServerMessage(stored, event, channels.toast) };
+        await publish(NOTIFICATION_CHANNEL, broadcast);
+      }
+
+      if (channels.email) {
+        await queueNotificationEmail(userId, event);
+      }
+    } catch (error) {
+      console.error('Error sending notification:', error);
+    }
+  };
+
+  // Helper function to notify every user whose role has the permission
+  app.locals.notifyStaff = async (permission: Permission, notification: NotificationEvent) => {
+    try {
+      const allUsers = await storage.getAllUsers();
+      const staff = allUsers.filter(user => hasPermission(user, permission));
+
+      await Promise.all(staff.map(member => app.locals.sendNotification(member.id, notification)));
+    } catch (error) {
+      console.error('Error notifying staff:', error);
+    }
+  };
+
+  // Notification inbox
+  app.get("/api/notifications", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const [inbox, unreadCount] = await Promise.all([
+        storage.getNotifications(req.user!.id),
+        storage.getUnreadNotificationCount(req.user!.id),
+      ]);
+      res.json({ notifications: inbox, unreadCount });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.user!.id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      await storage.markAllNotificationsRead(req.user!.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
+
+  // Notification preferences
+  app.get("/api/notifications/preferences", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const preferences = await resolvePreferences(req.user!.id);
+      res.json(visiblePreferences(preferences, req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put("/api/notifications/preferences", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const preferences = updateNotificationPreferencesSchema.parse(req.body);
+      await storage.setNotificationPreferences(req.user!.id, visiblePreferences(preferences, req.user!));
+      res.json(visiblePreferences(await resolvePreferences(req.user!.id), req.user!));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid notification preferences" });
+    }
+  });
+
+  // Admin: Channels copied to new accounts
+  app.get("/api/admin/notifications/defaults", requirePermission("notifications.view_defaults"), async (req, res) => {
+    try {
+      res.json(visiblePreferences(await resolvePreferences(), req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification defaults" });
+    }
+  });
+
+  app.put("/api/admin/notifications/defaults", requirePermission("notifications.manage_defaults"), async (req, res) => {
+    try {
+      const preferences = updateNotificationPreferencesSchema.parse(req.body);
+      const before = await resolvePreferences();
+      await storage.setNotificationDefaults(visiblePreferences(preferences, req.user!), req.user!.id);
+      const after = await resolvePreferences();
+
+      // Keyed by event type so the audit diff shows which ones changed
+      const byEventType = (list: NotificationPreference[]) =>
+        Object.fromEntries(list.map(({ eventType, ...channels }) => [eventType, channels]));
+      recordAudit(req, { action: "notification_defaults.updated", before: byEventType(before), after: byEventType(after) });
+
+      res.json(visiblePreferences(after, req.user!));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid notification defaults" });
+    }
+  });
+}
@@ -0,0 +1,78 @@
+import type { PoolClient } from "@neondatabase/serverless";
+import { pool } from "./db";
+
+// Cross-instance messaging over Postgres LISTEN/NOTIFY. Every server instance
+// subscribes on its own dedicated connection, so a message published by any
+// instance reaches all of them - including the publisher itself.
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_PAYLOAD_BYTES = 7999;
+const RESUBSCRIBE_DELAY_MS = 5_000;
+
+export async function publish(channel: string, payload: unknown) {
+  const message = JSON.stringify(payload);
+  if (Buffer.byteLength(message) > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Payload for channel "${channel}" is too large to publish`);
+  }
+  await pool.query("SELECT pg_notify($1, $2)", [channel, message]);
+}
+
+// Listens on a channel until the returned function is called, re-establishing
+// the connection if it drops. Messages sent while disconnected are lost.
+export function subscribe(channel: string, onMessage: (payload: unknown) => void): () => void {
+  let client: PoolClient | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const retry = () => {
+    if (closed) return;
+    // A failing connection can report through both its error event and the
+    // pending query - only schedule one attempt
+    clearTimeout(retryTimer);
+    retryTimer = setTimeout(listen, RESUBSCRIBE_DELAY_MS);
+  };
+
+  const listen = async () => {
+    try {
+      const listener = await pool.connect();
+      if (closed) {
+        listener.release(true);
+        return;
+      }
+      client = listener;
+
+      listener.on("notification", (message) => {
+        if (message.channel !== channel || !message.payload) return;
+        try {
+          onMessage(JSON.parse(message.payload));
+        } catch (error) {
+          console.error(`Error handling message on channel "${channel}":`, error);
+        }
+      });
+
+      listener.on("error", (error) => {
+        console.error(`Subscription to channel "${channel}" failed:`, error);
+        client = undefined;
+        // Passing the error destroys the connection instead of returning it to the pool
+        listener.release(error);
+        retry();
+      });
+
+      await listener.query(`LISTEN "${channel}"`);
+    } catch (error) {
+      console.error(`Failed to subscribe to channel "${channel}":`, error);
+      client?.release(true);
+      client = undefined;
+      retry();
+    }
+  };
+
+  listen();
+
+  return () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    client?.release(true);
+    client = undefined;
+  };
+}
@@ -1,13 +1,24 @@
 import type { Express } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer } from "ws";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { setupAuth } from "./auth";
+import { startOfMonth, startOfWeek } from "date-fns";
+import { setupAuth, requirePermission } from "./auth";
+import { setupNotifications } from "./notifications";
+import { setupEmail } from "./email";
+import { setupWebhooks, dispatchWebhookEvent } from "./webhooks";
+import { setupDeadlineReminders } from "./deadlines";
+import { setupChatOps, postChatEvent, taskSubmittedMessage, taskApprovedMessage } from "./chatops";
 import { storage } from "./storage";
-import { insertTaskSchema, updateTaskSchema, assignTaskSchema, completeTaskSchema, TASK_POINTS } from "@shared/schema";
+import { awardEarnedBadges } from "./badges";
+import { canTransition, transitionError } from "@shared/task-status";
+import { hasPermission } from "@shared/permissions";
+import { setupAudit, recordAudit } from "./audit";
+import { setupInvitations } from "./invitations";
+import { setupTwoFactor } from "./two-factor";
+import { insertTaskSchema, updateTaskSchema, assignTaskSchema, completeTaskSchema, pointAdjustmentSchema, insertRewardSchema, updateRewardSchema, reviewRedemptionSchema, insertTeamSchema, updateTeamSchema, teamMemberSchema, updateUserRoleSchema, leaderboardQuerySchema, insertSeasonSchema, applyLatePenalty, toUserSummary, TASK_POINTS } from "@shared/schema";
 
 // Ensure upload directory exists
 const uploadDir = 'uploads/proof-files/';
@@ -72,14 +83,15 @@ export function registerRoutes(app: Express): Server {
         proofFile: proofFilePath,
       });
 
-      // Notify all admins about new task submission
-      app.locals.notifyAdmins({
+      // Notify everyone who can review it
+      app.locals.notifyStaff("tasks.review", {
         type: 'task_submitted',
         title: 'New Task Submitted',
         message: `User ${req.user!.username} submitted a new ${validatedData.type} task: "${validatedData.title}"`,
         taskId: task.id,
-        timestamp: new Date().toISOString(),
       });
+      dispatchWebhookEvent("task.submitted", { task });
+      postChatEvent("task.submitted", taskSubmittedMessage(req.user!.username, task));
 
       res.status(201).json(task);
     } catch (error) {
@@ -107,11 +119,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Get pending tasks (admin only) - includes assigned tasks that need approval
-  app.get("/api/tasks/pending", async (req, res) => {
-    if (!req.isAuthenticated() || req.user!.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-
+  app.get("/api/tasks/pending", requirePermission("tasks.view"), async (req, res) => {
     try {
       const tasks = await storage.getPendingTasks();
       res.json(tasks);
@@ -121,11 +129,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Review task (admin only)
-  app.patch("/api/tasks/:id/review", async (req, res) => {
-    if (!req.isAuthenticated() || req.user!.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-
+  app.patch("/api/tasks/:id/review", requirePermission("tasks.review"), async (req, res) => {
     try {
       const { id } = req.params;
       const validatedData = updateTaskSchema.parse(req.body);
@@ -135,19 +139,59 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Task not found" });
       }
 
-      const updatedTask = await storage.updateTask(id, {
+      // Nobody reviews their own work - that would let them award themselves points
+      if (task.submittedBy === req.user!.id || task.assignedTo === req.user!.id) {
+        return res.status(403).json({ message: "You can't review a task you submitted or were assigned" });
+      }
+
+      // Reviews must be based on the latest copy of the task - the current one
+      // is sent back so the client can show what changed
+      if (task.version !== validatedData.version) {
+        return res.status(409).json({ message: "This task was changed since you opened it - check it and review again", task });
+      }
+
+      if (!canTransition(task.status, validatedData.status)) {
+        return res.status(409).json({ message: transitionError(task.status, validatedData.status), task });
+      }
+
+      // Late completions lose the task's penalty percentage. Without points in
+      // the request, an approval pays what the task was created or assigned with.
+      const approvedPoints = validatedData.points ?? task.points;
+      const points = validatedData.status === "approved" ? applyLatePenalty(task, approvedPoints) : validatedData.points;
+
+      const result = await storage.reviewTask(id, {
         ...validatedData,
+        points,
         reviewedBy: req.user!.id,
-        reviewedAt: new Date(),
+      });
+      if (!result) {
+        return res.status(409).json({ message: "Another admin reviewed this task at the same time - check it and review again", task: await storage.getTaskById(id) });
+      }
+      const updatedTask = result.task;
+      recordAudit(req, {
+        action: "task.reviewed",
+        target: { type: "task", id: task.id },
+        before: { status: task.status, points: task.points, rejectionReason: task.rejectionReason },
+        after: { status: updatedTask.status, points: updatedTask.points, rejectionReason: updatedTask.rejectionReason },
       });
 
-      // Award points if approved
-      if (validatedData.status === "approved" && validatedData.points) {
-        // For user-submitted tasks, award to submittedBy; for assigned tasks, award to assignedTo
-        const userToAward = task.submittedBy || task.assignedTo;
-        if (userToAward) {
-          await storage.updateUserPoints(userToAward, validatedData.points);
+      if (result.awarded) {
+        const userToAward = result.awarded.userId;
+
+        const awardee = await storage.getUser(userToAward);
+        if (awardee) {
+          postChatEvent("task.approved", taskApprovedMessage(awardee.username, task, result.awarded.delta));
         }
+
+        const earnedBadges = await awardEarnedBadges(userToAward, task.id);
+        earnedBadges.forEach(badge => {
+          app.locals.sendNotification(userToAward, {
+            type: 'badge_earned',
+            title: 'Badge Earned!',
+            message: `You earned the "${badge.name}" badge: ${badge.description}`,
+            badgeId: badge.id,
+          });
+        });
       }
 
       // If rejected task was assigned, don't put it back in pending - user will see it as rejected in assigned tasks
@@ -156,18 +200,23 @@ export function registerRoutes(app: Express): Server {
         // But users can still see them in their assigned tasks with rejection reason
       }
 
-      // Notify the task submitter about the review decision
-      app.locals.sendNotification(task.submittedBy, {
-        type: 'task_reviewed',
-        title: validatedData.status === 'approved' ? 'Task Approved!' : 'Task Rejected',
-        message: validatedData.status === 'approved' 
-          ? `Your task "${task.title}" was approved and you earned ${validatedData.points} points!`
-          : `Your task "${task.title}" was rejected. ${validatedData.rejectionReason || 'Please review and resubmit.'}`,
-        taskId: task.id,
-        status: validatedData.status,
-        points: validatedData.status === 'approved' ? validatedData.points : 0,
-        timestamp: new Date().toISOString(),
-      });
+      // Notify the submitter (or assignee, for assigned tasks) about the review decision
+      if (validatedData.status === 'approved' || validatedData.status === 'rejected') {
+        app.locals.sendNotification(task.submittedBy || task.assignedTo, {
+          type: 'task_reviewed',
+          title: validatedData.status === 'approved' ? 'Task Approved!' : 'Task Rejected',
+          message: validatedData.status === 'approved' 
+            ? `Your task "${task.title}" was approved and you earned ${points} points${points !== approvedPoints ? " after the late-completion penalty" : ""}!`
+            : `Your task "${task.title}" was rejected. ${validatedData.rejectionReason || 'Please review and resubmit.'}`,
+          taskId: task.id,
+          status: validatedData.status,
+          points: validatedData.status === 'approved' ? points ?? 0 : 0,
+        });
+        dispatchWebhookEvent(validatedData.status === 'approved' ? "task.approved" : "task.rejected", {
+          task: updatedTask,
+          points: validatedData.status === 'approved' ? points ?? 0 : 0,
+        });
+      }
 
       res.json(updatedTask);
     } catch (error) {
@@ -175,20 +224,208 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Get leaderboard
+  // Get leaderboard, optionally limited to a period or a custom from/to range
   app.get("/api/leaderboard", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
+    const query = leaderboardQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid leaderboard period" });
+    }
+
     try {
-      const leaderboard = await storage.getLeaderboard(10);
-      res.json(leaderboard);
+      const { period, from, to } = query.data;
+      const now = new Date();
+      let range: { from?: Date; to?: Date } | undefined;
+      if (from || to) {
+        range = { from, to };
+      } else if (period === "week") {
+        range = { from: startOfWeek(now, { weekStartsOn: 1 }) };
+      } else if (period === "month") {
+        range = { from: startOfMonth(now) };
+      } else if (period === "season") {
+        const season = await storage.getActiveSeason();
+        if (!season) {
+          return res.json([]);
+        }
+        range = { from: season.startsAt, to: season.endsAt };
+      }
+
+      const leaderboard = await storage.getLeaderboard(10, range);
+      const badges = await storage.getBadgesForUsers(leaderboard.map(user => user.id));
+      res.json(leaderboard.map(user => ({
+        ...user,
+        badges: badges.filter(badge => badge.userId === user.id).map(badge => badge.badgeId),
+      })));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch leaderboard" });
     }
   });
 
+  // Get all seasons, most recent first
+  app.get("/api/seasons", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const allSeasons = await storage.getSeasons();
+      res.json(allSeasons);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch seasons" });
+    }
+  });
+
+  // Get the archived final standings of a closed season
+  app.get("/api/seasons/:id/standings", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const season = await storage.getSeasonById(req.params.id);
+      if (!season) {
+        return res.status(404).json({ message: "Season not found" });
+      }
+      if (!season.closedAt) {
+        return res.status(400).json({ message: "Season is still running" });
+      }
+
+      const standings = await storage.getSeasonStandings(season.id);
+      res.json(standings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch season standings" });
+    }
+  });
+
+  // Admin: Create a season
+  app.post("/api/admin/seasons", requirePermission("seasons.manage"), async (req, res) => {
+    try {
+      const validatedData = insertSeasonSchema.parse(req.body);
+      if (validatedData.endsAt <= validatedData.startsAt) {
+        return res.status(400).json({ message: "Season must end after it starts" });
+      }
+
+      const existing = await storage.getSeasons();
+      const overlaps = existing.some(season =>
+        season.startsAt < validatedData.endsAt && validatedData.startsAt < season.endsAt
+      );
+      if (overlaps) {
+        return res.status(400).json({ message: "Season overlaps an existing season" });
+      }
+
+      const season = await storage.createSeason({
+        ...validatedData,
+        createdBy: req.user!.id,
+      });
+      recordAudit(req, { action: "season.created", target: { type: "season", id: season.id }, after: season });
+      res.status(201).json(season);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid season data" });
+    }
+  });
+
+  // Admin: Close a season and archive its final standings
+  app.post("/api/admin/seasons/:id/close", requirePermission("seasons.manage"), async (req, res) => {
+    try {
+      const season = await storage.closeSeason(req.params.id, req.user!.id);
+      if (!season) {
+        return res.status(404).json({ message: "Season not found or already closed" });
+      }
+      recordAudit(req, { action: "season.closed", target: { type: "season", id: season.id }, after: { closedAt: season.closedAt } });
+      res.json(season);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to close season" });
+    }
+  });
+
+  // Get team leaderboard
+  app.get("/api/leaderboard/teams", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const leaderboard = await storage.getTeamLeaderboard(10);
+      res.json(leaderboard);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch team leaderboard" });
+    }
+  });
+
+  // Get all teams with their members
+  app.get("/api/teams", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const allTeams = await storage.getTeams();
+      res.json(allTeams);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  });
+
+  // Admin: Create a team
+  app.post("/api/admin/teams", requirePermission("teams.manage"), async (req, res) => {
+    try {
+      const validatedData = insertTeamSchema.parse(req.body);
+      const team = await storage.createTeam(validatedData);
+      recordAudit(req, { action: "team.created", target: { type: "team", id: team.id }, after: team });
+      res.status(201).json(team);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid team data" });
+    }
+  });
+
+  // Admin: Rename a team or change its lead
+  app.patch("/api/admin/teams/:id", requirePermission("teams.manage"), async (req, res) => {
+    try {
+      const validatedData = updateTeamSchema.parse(req.body);
+      const before = await storage.getTeamById(req.params.id);
+      const team = await storage.updateTeam(req.params.id, validatedData);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      recordAudit(req, { action: "team.updated", target: { type: "team", id: team.id }, before, after: team });
+      res.json(team);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid team data" });
+    }
+  });
+
+  // Admin: Add a member to a team
+  app.post("/api/admin/teams/:id/members", requirePermission("teams.manage"), async (req, res) => {
+    try {
+      const { userId } = teamMemberSchema.parse(req.body);
+      const team = await storage.getTeamById(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!team || !user) {
+        return res.status(404).json({ message: "Team or user not found" });
+      }
+
+      await storage.addTeamMember(team.id, user.id);
+      recordAudit(req, { action: "team.member_added", target: { type: "team", id: team.id }, after: { userId: user.id } });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid team member data" });
+    }
+  });
+
+  // Admin: Remove a member from a team
+  app.delete("/api/admin/teams/:id/members/:userId", requirePermission("teams.manage"), async (req, res) => {
+    try {
+      await storage.removeTeamMember(req.params.id, req.params.userId);
+      recordAudit(req, { action: "team.member_removed", target: { type: "team", id: req.params.id }, before: { userId: req.params.userId } });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+
   // Get user stats
   app.get("/api/user/stats", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -203,17 +440,295 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Admin: Assign task to user
-  app.post("/api/admin/assign-task", async (req, res) => {
-    if (!req.isAuthenticated() || req.user!.role !== "admin") {
-      return res.sendStatus(403);
+  // Get the current user's earned badges
+  app.get("/api/user/badges", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const badges = await storage.getUserBadges(req.user!.id);
+      res.json(badges);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch badges" });
+    }
+  });
+
+  // Get the current user's points ledger
+  app.get("/api/user/points/history", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const history = await storage.getPointHistory(req.user!.id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch points history" });
+    }
+  });
+
+  // Admin: Get a user's points ledger
+  app.get("/api/admin/users/:id/points", requirePermission("points.view"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const history = await storage.getPointHistory(user.id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch points history" });
+    }
+  });
+
+  // Admin: Manually adjust a user's points with a ledger entry
+  app.post("/api/admin/users/:id/points", requirePermission("points.adjust"), async (req, res) => {
+    try {
+      const validatedData = pointAdjustmentSchema.parse(req.body);
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const transaction = await storage.recordPointTransaction({
+        userId: user.id,
+        delta: validatedData.delta,
+        reason: "adjustment",
+        actorId: req.user!.id,
+        note: validatedData.note,
+      });
+      recordAudit(req, {
+        action: "points.adjusted",
+        target: { type: "user", id: user.id },
+        before: { totalPoints: user.totalPoints },
+        after: { totalPoints: user.totalPoints + transaction.delta, note: transaction.note },
+      });
+
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(400).json({ message: "Invalid points adjustment" });
+      }
+    }
+  });
+
+  // Admin: Recompute a user's cached balance from the ledger
+  app.post("/api/admin/users/:id/points/reconcile", requirePermission("points.adjust"), async (req, res) => {
+    try {
+      const before = await storage.getUser(req.params.id);
+      const user = await storage.reconcileUserPoints(req.params.id, req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      recordAudit(req, {
+        action: "points.reconciled",
+        target: { type: "user", id: user.id },
+        before: { totalPoints: before?.totalPoints },
+        after: { totalPoints: user.totalPoints },
+      });
+
+      res.json(user);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reconcile points" });
+    }
+  });
+
+  // Get the active rewards catalog
+  app.get("/api/rewards", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const catalog = await storage.getRewards();
+      res.json(catalog);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch rewards" });
+    }
+  });
+
+  // Redeem a reward - points are deducted immediately and refunded if refused
+  app.post("/api/rewards/:id/redeem", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const redemption = await storage.redeemReward(req.params.id, req.user!.id);
+
+      app.locals.notifyStaff("rewards.manage", {
+        type: 'redemption_requested',
+        title: 'New Redemption Request',
+        message: `User ${req.user!.username} redeemed a reward for ${redemption.cost} points`,
+        redemptionId: redemption.id,
+      });
+
+      res.status(201).json(redemption);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(400).json({ message: "Failed to redeem reward" });
+      }
+    }
+  });
+
+  // Get the current user's redemption requests
+  app.get("/api/redemptions/my", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const userRedemptions = await storage.getUserRedemptions(req.user!.id);
+      res.json(userRedemptions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch redemptions" });
+    }
+  });
+
+  // Admin: Get the full rewards catalog, including inactive items
+  app.get("/api/admin/rewards", requirePermission("rewards.view"), async (req, res) => {
+    try {
+      const catalog = await storage.getRewards(true);
+      res.json(catalog);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch rewards" });
+    }
+  });
+
+  // Admin: Add a reward to the catalog
+  app.post("/api/admin/rewards", requirePermission("rewards.manage"), async (req, res) => {
+    try {
+      const validatedData = insertRewardSchema.parse(req.body);
+      const reward = await storage.createReward({
+        ...validatedData,
+        createdBy: req.user!.id,
+      });
+      recordAudit(req, { action: "reward.created", target: { type: "reward", id: reward.id }, after: reward });
+      res.status(201).json(reward);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid reward data" });
+    }
+  });
+
+  // Admin: Update a reward's cost, stock or availability
+  app.patch("/api/admin/rewards/:id", requirePermission("rewards.manage"), async (req, res) => {
+    try {
+      const validatedData = updateRewardSchema.parse(req.body);
+      const before = await storage.getRewardById(req.params.id);
+      const reward = await storage.updateReward(req.params.id, validatedData);
+      if (!reward) {
+        return res.status(404).json({ message: "Reward not found" });
+      }
+      recordAudit(req, { action: "reward.updated", target: { type: "reward", id: reward.id }, before, after: reward });
+      res.json(reward);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid reward data" });
+    }
+  });
+
+  // Admin: Get all redemption requests
+  app.get("/api/admin/redemptions", requirePermission("rewards.view"), async (req, res) => {
+    try {
+      const allRedemptions = await storage.getRedemptions();
+      res.json(allRedemptions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch redemptions" });
+    }
+  });
+
+  // Admin: Fulfil or refuse a pending redemption
+  app.patch("/api/admin/redemptions/:id", requirePermission("rewards.manage"), async (req, res) => {
+    try {
+      const validatedData = reviewRedemptionSchema.parse(req.body);
+      const redemption = await storage.reviewRedemption(req.params.id, {
+        ...validatedData,
+        reviewedBy: req.user!.id,
+      });
+      if (!redemption) {
+        return res.status(404).json({ message: "Redemption not found or already processed" });
+      }
+      recordAudit(req, {
+        action: "redemption.reviewed",
+        target: { type: "redemption", id: redemption.id },
+        before: { status: "pending" },
+        after: { status: redemption.status, note: redemption.note },
+      });
+
+      app.locals.sendNotification(redemption.userId, {
+        type: 'redemption_reviewed',
+        title: redemption.status === 'fulfilled' ? 'Reward Fulfilled!' : 'Redemption Refused',
+        message: redemption.status === 'fulfilled'
+          ? 'Your reward redemption has been fulfilled.'
+          : `Your reward redemption was refused and ${redemption.cost} points were refunded. ${validatedData.note || ''}`.trim(),
+        redemptionId: redemption.id,
+        status: redemption.status,
+      });
+
+      res.json(redemption);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid redemption review" });
     }
+  });
 
+  // Admin: Assign task to a user, or to every member of a team. Team leads
+  // can only assign within the teams they lead.
+  app.post("/api/admin/assign-task", requirePermission("tasks.assign", "tasks.assign_team"), async (req, res) => {
     try {
       const validatedData = assignTaskSchema.parse(req.body);
-      
+      const teamsOnly = !hasPermission(req.user, "tasks.assign");
+
+      if (validatedData.teamId) {
+        const team = await storage.getTeamById(validatedData.teamId);
+        if (!team) {
+          return res.status(404).json({ message: "Team not found" });
+        }
+        if (teamsOnly && team.leadId !== req.user!.id) {
+          return res.status(403).json({ message: "You can only assign tasks to teams you lead" });
+        }
+
+        const teamTasks = await storage.assignTaskToTeam({
+          ...validatedData,
+          teamId: team.id,
+          assignedBy: req.user!.id,
+          status: "assigned" as const,
+        });
+        if (teamTasks.length === 0) {
+          return res.status(400).json({ message: "Team has no members" });
+        }
+
+        // Notify every team member about their copy of the task
+        teamTasks.forEach(task => {
+          app.locals.sendNotification(task.assignedTo, {
+            type: 'task_assigned',
+            title: 'New Team Task Assigned',
+            message: `Your team "${team.name}" has been assigned a new ${validatedData.type} task: "${validatedData.title}". Deadline: ${validatedData.deadline.toLocaleDateString()}`,
+            taskId: task.id,
+            deadline: validatedData.deadline.toISOString(),
+          });
+          dispatchWebhookEvent("task.assigned", { task, team: { id: team.id, name: team.name } });
+          recordAudit(req, { action: "task.assigned", target: { type: "task", id: task.id }, after: task });
+        });
+
+        return res.status(201).json(teamTasks);
+      }
+
+      if (!validatedData.assignedTo) {
+        return res.status(400).json({ message: "Choose a user or a team to assign the task to" });
+      }
+      if (teamsOnly && !await storage.isMemberOfTeamLedBy(validatedData.assignedTo, req.user!.id)) {
+        return res.status(403).json({ message: "You can only assign tasks to members of teams you lead" });
+      }
+
       const task = await storage.assignTask({
         ...validatedData,
+        assignedTo: validatedData.assignedTo,
         assignedBy: req.user!.id,
         status: "assigned" as const,
       });
@@ -225,8 +740,9 @@ export function registerRoutes(app: Express): Server {
         message: `You have been assigned a new ${validatedData.type} task: "${validatedData.title}". Deadline: ${validatedData.deadline.toLocaleDateString()}`,
         taskId: task.id,
         deadline: validatedData.deadline.toISOString(),
-        timestamp: new Date().toISOString(),
       });
+      dispatchWebhookEvent("task.assigned", { task });
+      recordAudit(req, { action: "task.assigned", target: { type: "task", id: task.id }, after: task });
 
       res.status(201).json(task);
     } catch (error) {
@@ -263,8 +779,20 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Task not found or not assigned to you" });
       }
 
-      if (task.status !== "assigned" && task.status !== "in_progress") {
-        return res.status(400).json({ message: "Task cannot be completed" });
+      if (task.status === "expired") {
+        return res.status(409).json({ message: "This task expired at its deadline and can no longer be completed" });
+      }
+
+      if (!canTransition(task.status, "completed")) {
+        return res.status(409).json({ message: transitionError(task.status, "completed") });
+      }
+
+      // The deadline check runs every minute, so don't rely on the status alone
+      const completedAt = new Date();
+      const late = !!task.deadline && completedAt > task.deadline;
+      if (late && task.latePolicy === "expire") {
+        await storage.updateTask(taskId, { status: "expired" });
+        return res.status(409).json({ message: "This task expired at its deadline and can no longer be completed" });
       }
 
       const proofFilePath = req.file ? `/uploads/proof-files/${req.file.filename}` : undefined;
@@ -272,19 +800,31 @@ export function registerRoutes(app: Express): Server {
       const updatedTask = await storage.completeTask(taskId, {
         proofFile: proofFilePath,
         status: "completed" as const,
-        completedAt: new Date(),
+        completedAt,
+        completedLate: late,
       });
+      if (!updatedTask) {
+        return res.status(409).json({ message: "Task was changed in the meantime - reload and try again" });
+      }
 
       // Notify the admin who assigned the task
       if (task.assignedBy) {
         app.locals.sendNotification(task.assignedBy, {
           type: 'task_completed',
           title: 'Task Completed',
-          message: `${req.user!.username} has completed the assigned task: "${task.title}" and uploaded proof for review.`,
+          message: late
+            ? `${req.user!.username} has completed the assigned task: "${task.title}" after its deadline and uploaded proof for review.`
+            : `${req.user!.username} has completed the assigned task: "${task.title}" and uploaded proof for review.`,
           taskId: task.id,
-          timestamp: new Date().toISOString(),
         });
       }
+      dispatchWebhookEvent("task.completed", { task: updatedTask });
+      recordAudit(req, {
+        action: "task.completed",
+        target: { type: "task", id: task.id },
+        before: { status: task.status },
+        after: { status: updatedTask.status, completedLate: updatedTask.completedLate, proofFile: updatedTask.proofFile },
+      });
 
       res.json(updatedTask);
     } catch (error) {
@@ -292,26 +832,40 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Get all users (for admin task assignment)
-  app.get("/api/admin/users", async (req, res) => {
-    if (!req.isAuthenticated() || req.user!.role !== "admin") {
-      return res.sendStatus(403);
-    }
-
+  // Get all users (for task assignment, teams and the role editor)
+  app.get("/api/admin/users", requirePermission("users.view"), async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
+      const users = await storage.getUserSummaries();
       res.json(users);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch users" });
     }
   });
 
-  // Get admin stats
-  app.get("/api/admin/stats", async (req, res) => {
-    if (!req.isAuthenticated() || req.user!.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
+  // Admin: Change a user's role
+  app.patch("/api/admin/users/:id/role", requirePermission("users.manage_roles"), async (req, res) => {
+    try {
+      const { role } = updateUserRoleSchema.parse(req.body);
+
+      // Stops admins from locking themselves out
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "You can't change your own role" });
+      }
+
+      const before = await storage.getUser(req.params.id);
+      const user = await storage.updateUserRole(req.params.id, role);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      recordAudit(req, { action: "user.role_changed", target: { type: "user", id: user.id }, before: before && { role: before.role }, after: { role: user.role } });
+      res.json(toUserSummary(user));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid role" });
     }
+  });
 
+  // Get admin stats
+  app.get("/api/admin/stats", requirePermission("stats.view"), async (req, res) => {
     try {
       const stats = await storage.getAdminStats();
       res.json(stats);
@@ -321,65 +875,28 @@ export function registerRoutes(app: Express): Server {
   });
 
   const httpServer = createServer(app);
-  
-  // WebSocket server for real-time notifications
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  // Store connected clients by user ID
-  const clients = new Map();
-  
-  wss.on('connection', (ws, request) => {
-    console.log('WebSocket client connected');
-    
-    ws.on('message', (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        if (data.type === 'identify' && data.userId) {
-          clients.set(data.userId, ws);
-          console.log(`User ${data.userId} identified for notifications`);
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-      }
-    });
-    
-    ws.on('close', () => {
-      // Remove client from map
-      const entriesToDelete: string[] = [];
-      clients.forEach((client, userId) => {
-        if (client === ws) {
-          entriesToDelete.push(userId);
-        }
-      });
-      entriesToDelete.forEach(userId => clients.delete(userId));
-    });
-  });
-  
-  // Helper function to send notifications
-  app.locals.sendNotification = (userId: string, notification: any) => {
-    const client = clients.get(userId);
-    if (client && client.readyState === 1) { // WebSocket.OPEN
-      client.send(JSON.stringify(notification));
-    }
-  };
-  
-  // Helper function to notify all admins
-  app.locals.notifyAdmins = async (notification: any) => {
-    try {
-      // Get all admin users
-      const adminUsers = await storage.getAllUsers();
-      const admins = adminUsers.filter(user => user.role === "admin");
-      
-      admins.forEach((admin: any) => {
-        const client = clients.get(admin.id);
-        if (client && client.readyState === 1) {
-          client.send(JSON.stringify(notification));
-        }
-      });
-    } catch (error) {
-      console.error('Error notifying admins:', error);
-    }
-  };
+
+  // Real-time notifications, the notification inbox and the email channel
+  setupNotifications(app, httpServer);
+  setupEmail(app, httpServer);
+
+  // Outgoing webhooks for task lifecycle events
+  setupWebhooks(app, httpServer);
+
+  // Slack/Discord chat-ops messages
+  setupChatOps(app, httpServer);
+
+  // Audit log viewer and CSV export
+  setupAudit(app);
+
+  // Single-use invitation links for staff accounts
+  setupInvitations(app);
+
+  // Authenticator app enrollment and recovery codes
+  setupTwoFactor(app);
+
+  // Deadline reminders for assigned tasks
+  setupDeadlineReminders(app, httpServer);
   
   return httpServer;
 }
@@ -1,33 +1,240 @@
-import { users, tasks, type User, type InsertUser, type Task, type InsertTask, type UpdateTask, type AssignTask, type CompleteTask } from "@shared/schema";
+import { users, tasks, notifications, type Notification, pointTransactions, rewards, redemptions, userBadges, teams, teamMembers, seasons, seasonStandings, type Season, type InsertSeason, type SeasonStanding, type UserBadge, type Team, type InsertTeam, type UpdateTeam, type TeamWithMembers, type TeamStanding, type LeaderboardRange, type RankedUser, type User, type UserSummary, type InsertUser, type Task, type InsertTask, type UpdateTask, type AssignTask, type CompleteTask, type PointTransaction, type InsertPointTransaction, type Reward, type InsertReward, type UpdateReward, type Redemption, type RedemptionWithDetails, type ReviewRedemption, emailOutbox, emailVerificationTokens, type OutboxEmail, type InsertOutboxEmail, notificationPreferences, notificationDefaults, type NotificationPreference, webhooks, webhookDeliveries, type WebhookWithSecret, type InsertWebhook, type UpdateWebhook, type WebhookDelivery, type WebhookEvent, type WebhookPayload, chatIntegrations, type ChatIntegration, type InsertChatIntegration, type UpdateChatIntegration, type ChatEvent, taskReminders, type TaskReminder, auditEvents, type AuditEvent, type AuditEventWithActor, type InsertAuditEvent, type AuditQuery, invitations, type Invitation, type InvitationWithUsers, passwordResetTokens, type PasswordResetChannel, totpCredentials, recoveryCodes, type TotpCredential } from "@shared/schema";
+import { notificationEventTypeSchema } from "@shared/protocol";
+import { statusesAllowing, type TaskStatus } from "@shared/task-status";
+import { RANKED_ROLES, type UserRole } from "@shared/permissions";
 import { db } from "./db";
-import { eq, desc, and, or, sql, isNull, isNotNull } from "drizzle-orm";
+import { eq, desc, asc, and, or, sql, gt, gte, lte, inArray, arrayContains, isNull, isNotNull, getTableColumns } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 
 const PostgresSessionStore = connectPg(session);
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Ledger entries that count towards what a user has earned. Redemptions spend
+// the balance in users.total_points but never lower rankings or stats.
+const EARNED_POINT_REASONS: PointTransaction["reason"][] = ["task_approved", "adjustment", "opening_balance"];
+
+// Lifetime earned points per user, to left join onto users
+function earnedPointsSubquery() {
+  return db
+    .select({
+      userId: pointTransactions.userId,
+      earned: sql<number>`SUM(${pointTransactions.delta})::int`.as("earned"),
+    })
+    .from(pointTransactions)
+    .where(inArray(pointTransactions.reason, EARNED_POINT_REASONS))
+    .groupBy(pointTransactions.userId)
+    .as("earned_points");
+}
+
+// Everything but the token hash, which never leaves the server
+const { tokenHash: _tokenHash, ...invitationColumns } = getTableColumns(invitations);
+
+// The public part of a user the leaderboard shows to everyone
+const rankedUserColumns = { id: users.id, username: users.username, role: users.role, createdAt: users.createdAt };
+
+// New accounts start from a copy of the admin's notification defaults
+async function insertUser(tx: DbTransaction, insertUser: InsertUser & { role?: UserRole }): Promise<User> {
+  const [user] = await tx
+    .insert(users)
+    .values({
+      username: insertUser.username,
+      password: insertUser.password,
+      role: insertUser.role || "user",
+    })
+    .returning();
+
+  const defaults = await tx.select().from(notificationDefaults);
+  if (defaults.length > 0) {
+    await tx.insert(notificationPreferences).values(defaults.map(({ eventType, toast, inbox, email }) => ({
+      userId: user.id,
+      eventType,
+      toast,
+      inbox,
+      email,
+    })));
+  }
+
+  return user;
+}
+
+// Writes a ledger row and moves the cached balance by the same delta.
+// Refuses any entry that would take the balance below zero.
+async function applyPointTransaction(tx: DbTransaction, entry: InsertPointTransaction): Promise<PointTransaction> {
+  const [balance] = await tx
+    .update(users)
+    .set({
+      totalPoints: sql`${users.totalPoints} + ${entry.delta}`
+    })
+    .where(and(
+      eq(users.id, entry.userId),
+      sql`${users.totalPoints} + ${entry.delta} >= 0`
+    ))
+    .returning({ totalPoints: users.totalPoints });
+
+  if (!balance) {
+    throw new Error("Insufficient points");
+  }
+
+  const [transaction] = await tx
+    .insert(pointTransactions)
+    .values(entry)
+    .returning();
+  return transaction;
+}
+
+// Rows for event types that no longer exist are skipped
+function toNotificationPreference(row: { eventType: string; toast: boolean; inbox: boolean; email: boolean }): NotificationPreference[] {
+  const eventType = notificationEventTypeSchema.safeParse(row.eventType);
+  return eventType.success
+    ? [{ eventType: eventType.data, toast: row.toast, inbox: row.inbox, email: row.email }]
+    : [];
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser & { role?: "user" | "admin" }): Promise<User>;
+  createUser(user: InsertUser & { role?: UserRole }): Promise<User>;
   getAllUsers(): Promise<User[]>;
+  getUserSummaries(): Promise<UserSummary[]>;
+  updateUserEmail(userId: string, email: string): Promise<User | undefined>;
+  updateUserRole(userId: string, role: UserRole): Promise<User | undefined>;
+  updateUserPassword(userId: string, passwordHash: string): Promise<User | undefined>;
+  deleteUserSessions(userId: string, exceptSessionId?: string): Promise<void>;
   
   // Task operations
   createTask(task: InsertTask & { submittedBy: string; points: number }): Promise<Task>;
-  assignTask(task: AssignTask & { assignedBy: string; status: "assigned" }): Promise<Task>;
+  assignTask(task: AssignTask & { assignedTo: string; assignedBy: string; status: "assigned" }): Promise<Task>;
+  assignTaskToTeam(task: AssignTask & { teamId: string; assignedBy: string; status: "assigned" }): Promise<Task[]>;
   getTaskById(id: string): Promise<Task | undefined>;
   getTasksByUser(userId: string): Promise<Task[]>;
   getUserSubmittedTasks(userId: string): Promise<Task[]>;
   getAssignedTasks(userId: string): Promise<Task[]>;
   getPendingTasks(): Promise<Task[]>;
   getAllTasks(): Promise<Task[]>;
-  updateTask(id: string, updates: Partial<UpdateTask & { reviewedBy: string; reviewedAt: Date }>): Promise<Task | undefined>;
-  completeTask(id: string, completion: CompleteTask & { status: "completed"; completedAt: Date }): Promise<Task | undefined>;
+  updateTask(id: string, updates: Partial<Omit<UpdateTask, "status" | "version"> & { status: TaskStatus }>): Promise<Task | undefined>;
+  reviewTask(id: string, review: UpdateTask & { reviewedBy: string }): Promise<{ task: Task; awarded?: PointTransaction } | undefined>;
+  completeTask(id: string, completion: CompleteTask & { status: "completed"; completedAt: Date; completedLate: boolean }): Promise<Task | undefined>;
+  getTasksAwaitingReminder(reminder: TaskReminder, window: { dueAfter?: Date; dueBefore: Date; leadMs?: number }): Promise<Task[]>;
+  claimTaskReminder(taskId: string, reminder: TaskReminder): Promise<boolean>;
+  markOverdueTasks(now: Date): Promise<Task[]>;
   
-  // Points and leaderboard
-  updateUserPoints(userId: string, pointsToAdd: number): Promise<void>;
-  getLeaderboard(limit?: number): Promise<User[]>;
+  // Points ledger
+  recordPointTransaction(entry: InsertPointTransaction): Promise<PointTransaction>;
+  getPointHistory(userId: string): Promise<PointTransaction[]>;
+  reconcileUserPoints(userId: string, actorId: string): Promise<User | undefined>;
+  carryOverOpeningBalances(): Promise<number>;
+
+  // Rewards and redemptions
+  getRewards(includeInactive?: boolean): Promise<Reward[]>;
+  createReward(reward: InsertReward & { createdBy: string }): Promise<Reward>;
+  getRewardById(id: string): Promise<Reward | undefined>;
+  updateReward(id: string, updates: UpdateReward): Promise<Reward | undefined>;
+  redeemReward(rewardId: string, userId: string): Promise<Redemption>;
+  getUserRedemptions(userId: string): Promise<RedemptionWithDetails[]>;
+  getRedemptions(): Promise<RedemptionWithDetails[]>;
+  reviewRedemption(id: string, review: ReviewRedemption & { reviewedBy: string }): Promise<Redemption | undefined>;
+
+  // Teams
+  getTeams(): Promise<TeamWithMembers[]>;
+  getTeamById(id: string): Promise<Team | undefined>;
+  createTeam(team: InsertTeam): Promise<Team>;
+  updateTeam(id: string, updates: UpdateTeam): Promise<Team | undefined>;
+  addTeamMember(teamId: string, userId: string): Promise<void>;
+  removeTeamMember(teamId: string, userId: string): Promise<void>;
+  isMemberOfTeamLedBy(userId: string, leadId: string): Promise<boolean>;
+  getTeamLeaderboard(limit?: number): Promise<TeamStanding[]>;
+
+  // Notification inbox
+  createNotification(notification: Pick<Notification, "userId" | "type" | "title" | "message" | "data" | "inbox">): Promise<Notification>;
+  getNotifications(userId: string, limit?: number): Promise<Notification[]>;
+  getLatestNotification(userId: string): Promise<Notification | undefined>;
+  getNotificationsSince(userId: string, cursorId: string, limit?: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+
+  // Notification preferences
+  getNotificationPreferences(userId: string): Promise<NotificationPreference[]>;
+  setNotificationPreferences(userId: string, preferences: NotificationPreference[]): Promise<void>;
+  getNotificationDefaults(): Promise<NotificationPreference[]>;
+  setNotificationDefaults(preferences: NotificationPreference[], updatedBy: string): Promise<void>;
+
+  // Email
+  createEmailVerificationToken(token: { userId: string; email: string; tokenHash: string; expiresAt: Date }): Promise<void>;
+  verifyEmail(tokenHash: string): Promise<User | undefined>;
+  enqueueEmail(email: InsertOutboxEmail): Promise<OutboxEmail>;
+  claimDueEmails(limit: number, leaseMs: number): Promise<OutboxEmail[]>;
+  markEmailSent(id: string): Promise<void>;
+  markEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void>;
+
+  // Password resets
+  createPasswordResetToken(token: { userId: string; tokenHash: string; channel: PasswordResetChannel; createdBy?: string; expiresAt: Date }): Promise<void>;
+  resetPassword(tokenHash: string, passwordHash: string): Promise<User | undefined>;
+
+  // Two-factor authentication
+  getTotpCredential(userId: string): Promise<TotpCredential | undefined>;
+  saveTotpSecret(userId: string, secret: string): Promise<TotpCredential>;
+  claimTotpStep(userId: string, step: number): Promise<boolean>;
+  enableTwoFactor(userId: string, recoveryCodeHashes: string[]): Promise<User | undefined>;
+  disableTwoFactor(userId: string): Promise<User | undefined>;
+  replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: string): Promise<number>;
+
+  // Webhooks
+  getWebhooks(): Promise<WebhookWithSecret[]>;
+  getWebhookById(id: string): Promise<WebhookWithSecret | undefined>;
+  createWebhook(webhook: InsertWebhook & { secret: string; createdBy: string }): Promise<WebhookWithSecret>;
+  updateWebhook(id: string, updates: UpdateWebhook & { secret?: string }): Promise<WebhookWithSecret | undefined>;
+  deleteWebhook(id: string): Promise<boolean>;
+  getSubscribedWebhooks(event: WebhookEvent): Promise<WebhookWithSecret[]>;
+  createWebhookDeliveries(deliveries: { webhookId: string; event: string; payload: WebhookPayload; nextAttemptAt?: Date }[]): Promise<WebhookDelivery[]>;
+  getWebhookDeliveries(webhookId: string, limit?: number): Promise<WebhookDelivery[]>;
+  claimDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]>;
+  recordWebhookAttempt(id: string, attempt: { responseStatus: number | null; error: string | null; retryAt: Date | null }): Promise<WebhookDelivery | undefined>;
+
+  // Chat integrations
+  getChatIntegrations(): Promise<ChatIntegration[]>;
+  getChatIntegrationById(id: string): Promise<ChatIntegration | undefined>;
+  createChatIntegration(integration: InsertChatIntegration & { createdBy: string }): Promise<ChatIntegration>;
+  updateChatIntegration(id: string, updates: UpdateChatIntegration): Promise<ChatIntegration | undefined>;
+  deleteChatIntegration(id: string): Promise<boolean>;
+  getSubscribedChatIntegrations(event: ChatEvent): Promise<ChatIntegration[]>;
+  recordChatPost(id: string, error: string | null): Promise<void>;
+  claimDailyLeaderboardPosts(day: string): Promise<ChatIntegration[]>;
+
+  // Audit log - append-only, there is deliberately no update or delete
+  recordAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filters: Omit<AuditQuery, "limit" | "offset">, page: { limit: number; offset: number }): Promise<AuditEventWithActor[]>;
+
+  // Invitations
+  createInvitation(invitation: { tokenHash: string; role: UserRole; note?: string; createdBy: string; expiresAt: Date }): Promise<Invitation>;
+  getInvitations(): Promise<InvitationWithUsers[]>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined>;
+  revokeInvitation(id: string): Promise<Invitation | undefined>;
+  acceptInvitation(tokenHash: string, user: InsertUser): Promise<User | undefined>;
+
+  // Seasons
+  getSeasons(): Promise<Season[]>;
+  getSeasonById(id: string): Promise<Season | undefined>;
+  getActiveSeason(): Promise<Season | undefined>;
+  createSeason(season: InsertSeason & { createdBy: string }): Promise<Season>;
+  closeSeason(id: string, closedBy: string): Promise<Season | undefined>;
+  getSeasonStandings(seasonId: string): Promise<SeasonStanding[]>;
+
+  // Badges
+  getApprovedTaskCounts(userId: string): Promise<Record<string, number>>;
+  getEarnedPoints(userId: string): Promise<number>;
+  getUserBadges(userId: string): Promise<UserBadge[]>;
+  getBadgesForUsers(userIds: string[]): Promise<UserBadge[]>;
+  awardBadge(userId: string, badgeId: string, taskId?: string): Promise<UserBadge | undefined>;
+
+  // Leaderboard
+  getLeaderboard(limit?: number, range?: LeaderboardRange): Promise<RankedUser[]>;
   getUserStats(userId: string): Promise<{
     totalPoints: number;
     completedTasks: number;
@@ -41,6 +248,7 @@ export interface IStorage {
     approvedToday: number;
     pointsDistributed: number;
     activeUsers: number;
+    teamTotals: TeamStanding[];
   }>;
 
   sessionStore: any;
@@ -66,22 +274,66 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser & { role?: "user" | "admin" }): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values({
-        username: insertUser.username,
-        password: insertUser.password,
-        role: insertUser.role || "user",
-      })
-      .returning();
-    return user;
+  async createUser(user: InsertUser & { role?: UserRole }): Promise<User> {
+    return await db.transaction(async (tx) => insertUser(tx, user));
   }
 
   async getAllUsers(): Promise<User[]> {
     return await db.select().from(users);
   }
 
+  async getUserSummaries(): Promise<UserSummary[]> {
+    return await db
+      .select({ id: users.id, username: users.username, role: users.role, totalPoints: users.totalPoints })
+      .from(users);
+  }
+
+  // Changing the address always clears its verification. Only addresses
+  // another user has confirmed count as taken.
+  async updateUserEmail(userId: string, email: string): Promise<User | undefined> {
+    const [owner] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.email, email), isNotNull(users.emailVerifiedAt), sql`${users.id} <> ${userId}`));
+    if (owner) {
+      throw new Error("Email is already in use");
+    }
+
+    const [user] = await db
+      .update(users)
+      .set({ email, emailVerifiedAt: null })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  async updateUserRole(userId: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ password: passwordHash })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  // Signs the user out everywhere, optionally keeping the session making the
+  // request. Sessions live in connect-pg-simple's "session" table.
+  async deleteUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+    await pool.query(
+      `DELETE FROM "session" WHERE sess->'passport'->>'user' = $1 AND ($2::text IS NULL OR sid <> $2)`,
+      [userId, exceptSessionId ?? null]
+    );
+  }
+
   async createTask(task: InsertTask & { submittedBy: string; points: number }): Promise<Task> {
     const [newTask] = await db
       .insert(tasks)
@@ -90,7 +342,7 @@ export class DatabaseStorage implements IStorage {
     return newTask;
   }
 
-  async assignTask(assignTask: AssignTask & { assignedBy: string; status: "assigned" }): Promise<Task> {
+  async assignTask(assignTask: AssignTask & { assignedTo: string; assignedBy: string; status: "assigned" }): Promise<Task> {
     const [task] = await db
       .insert(tasks)
       .values({
@@ -101,12 +353,43 @@ export class DatabaseStorage implements IStorage {
         assignedTo: assignTask.assignedTo,
         assignedBy: assignTask.assignedBy,
         deadline: assignTask.deadline,
+        latePolicy: assignTask.latePolicy,
+        latePenaltyPercent: assignTask.latePenaltyPercent,
         status: assignTask.status,
       })
       .returning();
     return task;
   }
 
+  async assignTaskToTeam(assignTask: AssignTask & { teamId: string; assignedBy: string; status: "assigned" }): Promise<Task[]> {
+    // Each member gets their own copy so completion and review stay per-user
+    const members = await db
+      .select({ userId: teamMembers.userId })
+      .from(teamMembers)
+      .where(eq(teamMembers.teamId, assignTask.teamId));
+
+    if (members.length === 0) {
+      return [];
+    }
+
+    return await db
+      .insert(tasks)
+      .values(members.map(member => ({
+        title: assignTask.title,
+        description: assignTask.description,
+        type: assignTask.type,
+        points: assignTask.points,
+        assignedTo: member.userId,
+        assignedBy: assignTask.assignedBy,
+        teamId: assignTask.teamId,
+        deadline: assignTask.deadline,
+        latePolicy: assignTask.latePolicy,
+        latePenaltyPercent: assignTask.latePenaltyPercent,
+        status: assignTask.status,
+      })))
+      .returning();
+  }
+
   async getTaskById(id: string): Promise<Task | undefined> {
     const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
     return task || undefined;
@@ -155,39 +438,1183 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(tasks.createdAt));
   }
 
-  async updateTask(id: string, updates: Partial<UpdateTask & { reviewedBy: string; reviewedAt: Date }>): Promise<Task | undefined> {
+  async updateTask(id: string, updates: Partial<Omit<UpdateTask, "status" | "version"> & { status: TaskStatus }>): Promise<Task | undefined> {
+    // A status change only applies from a status that allows it, so returns
+    // undefined if the task has moved on since it was read
     const [updatedTask] = await db
       .update(tasks)
-      .set(updates)
-      .where(eq(tasks.id, id))
+      .set({ ...updates, version: sql`${tasks.version} + 1` })
+      .where(and(
+        eq(tasks.id, id),
+        updates.status ? inArray(tasks.status, statusesAllowing(updates.status)) : undefined,
+      ))
       .returning();
     return updatedTask || undefined;
   }
 
-  async completeTask(id: string, completion: CompleteTask & { status: "completed"; completedAt: Date }): Promise<Task | undefined> {
+  async reviewTask(id: string, review: UpdateTask & { reviewedBy: string }): Promise<{ task: Task; awarded?: PointTransaction } | undefined> {
+    // The decision and the points it awards commit together or not at all
+    return await db.transaction(async (tx) => {
+      // Compare-and-set on the version the reviewer saw - a stale or
+      // concurrent review updates nothing and returns undefined
+      const [task] = await tx
+        .update(tasks)
+        .set({
+          status: review.status,
+          points: review.points,
+          rejectionReason: review.rejectionReason,
+          reviewedBy: review.reviewedBy,
+          reviewedAt: new Date(),
+          version: sql`${tasks.version} + 1`,
+        })
+        .where(and(
+          eq(tasks.id, id),
+          eq(tasks.version, review.version),
+          inArray(tasks.status, statusesAllowing(review.status)),
+        ))
+        .returning();
+
+      if (!task) {
+        return undefined;
+      }
+
+      // For user-submitted tasks, award to submittedBy; for assigned tasks, award to assignedTo
+      const userId = task.submittedBy || task.assignedTo;
+      if (task.status !== "approved" || task.points <= 0 || !userId) {
+        return { task };
+      }
+
+      // A task is only ever paid out once - the unique index on approved
+      // task entries backs this up
+      const [paid] = await tx
+        .select({ id: pointTransactions.id })
+        .from(pointTransactions)
+        .where(and(eq(pointTransactions.taskId, task.id), eq(pointTransactions.reason, "task_approved")));
+      if (paid) {
+        return { task };
+      }
+
+      const awarded = await applyPointTransaction(tx, {
+        userId,
+        delta: task.points,
+        reason: "task_approved",
+        taskId: task.id,
+        actorId: review.reviewedBy,
+      });
+      return { task, awarded };
+    });
+  }
+
+  async completeTask(id: string, completion: CompleteTask & { status: "completed"; completedAt: Date; completedLate: boolean }): Promise<Task | undefined> {
     const [updatedTask] = await db
       .update(tasks)
-      .set(completion)
-      .where(eq(tasks.id, id))
+      .set({ ...completion, version: sql`${tasks.version} + 1` })
+      .where(and(eq(tasks.id, id), inArray(tasks.status, statusesAllowing("completed"))))
       .returning();
     return updatedTask || undefined;
   }
 
-  async updateUserPoints(userId: string, pointsToAdd: number): Promise<void> {
+  async getTasksAwaitingReminder(reminder: TaskReminder, window: { dueAfter?: Date; dueBefore: Date; leadMs?: number }): Promise<Task[]> {
+    // Open assigned tasks due within the window that haven't had this reminder
+    // yet. With leadMs, tasks assigned less than leadMs before their deadline
+    // are skipped - the assignment notification already carried the deadline.
+    return await db
+      .select()
+      .from(tasks)
+      .where(and(
+        inArray(tasks.status, ["assigned", "in_progress"]),
+        isNotNull(tasks.assignedTo),
+        lte(tasks.deadline, window.dueBefore),
+        window.dueAfter ? gt(tasks.deadline, window.dueAfter) : undefined,
+        window.leadMs !== undefined
+          ? sql`${tasks.createdAt} <= ${tasks.deadline} - ${`${window.leadMs} milliseconds`}::interval`
+          : undefined,
+        sql`not exists (select 1 from ${taskReminders} where ${taskReminders.taskId} = ${tasks.id} and ${taskReminders.reminder} = ${reminder})`,
+      ))
+      .orderBy(asc(tasks.deadline));
+  }
+
+  async claimTaskReminder(taskId: string, reminder: TaskReminder): Promise<boolean> {
+    // False when the reminder was already sent, possibly by another instance
+    const [claimed] = await db
+      .insert(taskReminders)
+      .values({ taskId, reminder })
+      .onConflictDoNothing()
+      .returning();
+    return !!claimed;
+  }
+
+  async markOverdueTasks(now: Date): Promise<Task[]> {
+    // Open tasks past their deadline become overdue, or expired if their
+    // policy forbids late completion. Only the instance whose update wins
+    // gets a task back.
+    return await db
+      .update(tasks)
+      .set({
+        status: sql`case when ${tasks.latePolicy} = 'expire' then 'expired'::task_status else 'overdue'::task_status end`,
+        version: sql`${tasks.version} + 1`,
+      })
+      .where(and(
+        inArray(tasks.status, statusesAllowing("overdue")),
+        lte(tasks.deadline, now),
+      ))
+      .returning();
+  }
+
+  async recordPointTransaction(entry: InsertPointTransaction): Promise<PointTransaction> {
+    // Ledger row and cached balance are written together so they can't drift apart
+    return await db.transaction((tx) => applyPointTransaction(tx, entry));
+  }
+
+  async getPointHistory(userId: string): Promise<PointTransaction[]> {
+    return await db
+      .select()
+      .from(pointTransactions)
+      .where(eq(pointTransactions.userId, userId))
+      .orderBy(desc(pointTransactions.createdAt));
+  }
+
+  async reconcileUserPoints(userId: string, actorId: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId));
+      if (!user) {
+        return undefined;
+      }
+
+      const [ledger] = await tx
+        .select({
+          hasOpeningBalance: sql<boolean>`BOOL_OR(${pointTransactions.reason} = 'opening_balance')`,
+          total: sql<number>`COALESCE(SUM(${pointTransactions.delta}), 0)::int`,
+        })
+        .from(pointTransactions)
+        .where(eq(pointTransactions.userId, userId));
+
+      // Points earned before the ledger existed are whatever the cached balance
+      // holds beyond the ledger - carried over once as an opening entry. After
+      // that the ledger is the source of truth.
+      if (!ledger.hasOpeningBalance && user.totalPoints !== ledger.total) {
+        await tx.insert(pointTransactions).values({
+          userId,
+          delta: user.totalPoints - ledger.total,
+          reason: "opening_balance",
+          actorId,
+          note: "Balance carried over from before the points ledger",
+        });
+        return user;
+      }
+
+      const [reconciled] = await tx
+        .update(users)
+        .set({ totalPoints: ledger.total })
+        .where(eq(users.id, userId))
+        .returning();
+      return reconciled;
+    });
+  }
+
+  // reconcileUserPoints' carry-over for every user at once, so rankings that
+  // count only ledger entries still include points earned before the ledger.
+  // Users whose balance already matches the ledger, or who have an opening
+  // entry, are left alone, so running it again changes nothing.
+  async carryOverOpeningBalances(): Promise<number> {
+    const ledger = db
+      .select({
+        userId: pointTransactions.userId,
+        total: sql<number>`SUM(${pointTransactions.delta})`.as("total"),
+        hasOpeningBalance: sql<boolean>`BOOL_OR(${pointTransactions.reason} = 'opening_balance')`.as("has_opening_balance"),
+      })
+      .from(pointTransactions)
+      .groupBy(pointTransactions.userId)
+      .as("ledger");
+
+    const missing = await db
+      .select({
+        userId: users.id,
+        delta: sql<number>`(${users.totalPoints} - COALESCE(${ledger.total}, 0))::int`,
+      })
+      .from(users)
+      .leftJoin(ledger, eq(ledger.userId, users.id))
+      .where(and(
+        sql`${users.totalPoints} <> COALESCE(${ledger.total}, 0)`,
+        sql`${ledger.hasOpeningBalance} IS NOT TRUE`
+      ));
+    if (missing.length === 0) {
+      return 0;
+    }
+
+    // The unique opening-balance index keeps concurrent startups from doubling up
+    const inserted = await db
+      .insert(pointTransactions)
+      .values(missing.map(({ userId, delta }) => ({
+        userId,
+        delta,
+        reason: "opening_balance" as const,
+        note: "Balance carried over from before the points ledger",
+      })))
+      .onConflictDoNothing()
+      .returning({ id: pointTransactions.id });
+    return inserted.length;
+  }
+
+  async getRewards(includeInactive: boolean = false): Promise<Reward[]> {
+    return await db
+      .select()
+      .from(rewards)
+      .where(includeInactive ? undefined : eq(rewards.active, true))
+      .orderBy(asc(rewards.cost));
+  }
+
+  async createReward(reward: InsertReward & { createdBy: string }): Promise<Reward> {
+    const [newReward] = await db
+      .insert(rewards)
+      .values(reward)
+      .returning();
+    return newReward;
+  }
+
+  async getRewardById(id: string): Promise<Reward | undefined> {
+    const [reward] = await db.select().from(rewards).where(eq(rewards.id, id));
+    return reward || undefined;
+  }
+
+  async updateReward(id: string, updates: UpdateReward): Promise<Reward | undefined> {
+    const [updatedReward] = await db
+      .update(rewards)
+      .set(updates)
+      .where(eq(rewards.id, id))
+      .returning();
+    return updatedReward || undefined;
+  }
+
+  async redeemReward(rewardId: string, userId: string): Promise<Redemption> {
+    return await db.transaction(async (tx) => {
+      // Claim one unit of stock first so concurrent redemptions can't oversell
+      const [reward] = await tx
+        .update(rewards)
+        .set({ stock: sql`${rewards.stock} - 1` })
+        .where(and(eq(rewards.id, rewardId), eq(rewards.active, true), gt(rewards.stock, 0)))
+        .returning();
+
+      if (!reward) {
+        throw new Error("Reward is unavailable or out of stock");
+      }
+
+      const [redemption] = await tx
+        .insert(redemptions)
+        .values({ rewardId, userId, cost: reward.cost })
+        .returning();
+
+      await applyPointTransaction(tx, {
+        userId,
+        delta: -reward.cost,
+        reason: "redemption",
+        note: `Redeemed "${reward.name}"`,
+      });
+
+      return redemption;
+    });
+  }
+
+  async getUserRedemptions(userId: string): Promise<RedemptionWithDetails[]> {
+    return await db
+      .select({ ...getTableColumns(redemptions), rewardName: rewards.name, username: users.username })
+      .from(redemptions)
+      .innerJoin(rewards, eq(redemptions.rewardId, rewards.id))
+      .innerJoin(users, eq(redemptions.userId, users.id))
+      .where(eq(redemptions.userId, userId))
+      .orderBy(desc(redemptions.createdAt));
+  }
+
+  async getRedemptions(): Promise<RedemptionWithDetails[]> {
+    return await db
+      .select({ ...getTableColumns(redemptions), rewardName: rewards.name, username: users.username })
+      .from(redemptions)
+      .innerJoin(rewards, eq(redemptions.rewardId, rewards.id))
+      .innerJoin(users, eq(redemptions.userId, users.id))
+      .orderBy(desc(redemptions.createdAt));
+  }
+
+  async reviewRedemption(id: string, review: ReviewRedemption & { reviewedBy: string }): Promise<Redemption | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only pending requests can be decided, so a refund can never be issued twice
+      const [redemption] = await tx
+        .update(redemptions)
+        .set({
+          status: review.status,
+          note: review.note,
+          reviewedBy: review.reviewedBy,
+          reviewedAt: new Date(),
+        })
+        .where(and(eq(redemptions.id, id), eq(redemptions.status, "pending")))
+        .returning();
+
+      if (!redemption) {
+        return undefined;
+      }
+
+      if (review.status === "refused") {
+        await tx
+          .update(rewards)
+          .set({ stock: sql`${rewards.stock} + 1` })
+          .where(eq(rewards.id, redemption.rewardId));
+
+        await applyPointTransaction(tx, {
+          userId: redemption.userId,
+          delta: redemption.cost,
+          reason: "redemption_refund",
+          actorId: review.reviewedBy,
+          note: review.note,
+        });
+      }
+
+      return redemption;
+    });
+  }
+
+  async getTeams(): Promise<TeamWithMembers[]> {
+    const allTeams = await db.select().from(teams).orderBy(asc(teams.name));
+    const memberships = await db
+      .select({
+        teamId: teamMembers.teamId,
+        id: users.id,
+        username: users.username,
+        totalPoints: users.totalPoints,
+      })
+      .from(teamMembers)
+      .innerJoin(users, eq(teamMembers.userId, users.id))
+      .orderBy(asc(users.username));
+
+    return allTeams.map(team => ({
+      ...team,
+      members: memberships
+        .filter(member => member.teamId === team.id)
+        .map(({ teamId, ...member }) => member),
+    }));
+  }
+
+  async getTeamById(id: string): Promise<Team | undefined> {
+    const [team] = await db.select().from(teams).where(eq(teams.id, id));
+    return team || undefined;
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    return await db.transaction(async (tx) => {
+      const [newTeam] = await tx
+        .insert(teams)
+        .values(team)
+        .returning();
+
+      // The lead is always a member of their own team
+      if (newTeam.leadId) {
+        await tx.insert(teamMembers).values({ teamId: newTeam.id, userId: newTeam.leadId });
+      }
+      return newTeam;
+    });
+  }
+
+  async updateTeam(id: string, updates: UpdateTeam): Promise<Team | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedTeam] = await tx
+        .update(teams)
+        .set(updates)
+        .where(eq(teams.id, id))
+        .returning();
+
+      if (updatedTeam?.leadId) {
+        await tx
+          .insert(teamMembers)
+          .values({ teamId: id, userId: updatedTeam.leadId })
+          .onConflictDoNothing();
+      }
+      return updatedTeam || undefined;
+    });
+  }
+
+  async addTeamMember(teamId: string, userId: string): Promise<void> {
     await db
-      .update(users)
+      .insert(teamMembers)
+      .values({ teamId, userId })
+      .onConflictDoNothing();
+  }
+
+  async removeTeamMember(teamId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(teamMembers)
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)));
+
+      // A team can't be led by someone who left it
+      await tx
+        .update(teams)
+        .set({ leadId: null })
+        .where(and(eq(teams.id, teamId), eq(teams.leadId, userId)));
+    });
+  }
+
+  async isMemberOfTeamLedBy(userId: string, leadId: string): Promise<boolean> {
+    const [membership] = await db
+      .select({ id: teamMembers.id })
+      .from(teamMembers)
+      .innerJoin(teams, eq(teamMembers.teamId, teams.id))
+      .where(and(eq(teamMembers.userId, userId), eq(teams.leadId, leadId)))
+      .limit(1);
+    return !!membership;
+  }
+
+  async getTeamLeaderboard(limit: number = 10): Promise<TeamStanding[]> {
+    const earned = earnedPointsSubquery();
+    const teamPoints = sql<number>`COALESCE(SUM(${earned.earned}), 0)::int`;
+    return await db
+      .select({
+        id: teams.id,
+        name: teams.name,
+        leadId: teams.leadId,
+        memberCount: sql<number>`COUNT(${users.id})::int`,
+        totalPoints: teamPoints,
+      })
+      .from(teams)
+      .leftJoin(teamMembers, eq(teamMembers.teamId, teams.id))
+      .leftJoin(users, eq(teamMembers.userId, users.id))
+      .leftJoin(earned, eq(earned.userId, users.id))
+      .groupBy(teams.id)
+      .orderBy(desc(teamPoints))
+      .limit(limit);
+  }
+
+  async createNotification(notification: Pick<Notification, "userId" | "type" | "title" | "message" | "data" | "inbox">): Promise<Notification> {
+    const [newNotification] = await db
+      .insert(notifications)
+      .values(notification)
+      .returning();
+    return newNotification;
+  }
+
+  async getNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.inbox, true)))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  // Includes toast-only notifications - used as the replay cursor
+  async getLatestNotification(userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(1);
+    return notification || undefined;
+  }
+
+  // Notifications created after the cursor, oldest first; ties on createdAt
+  // are broken by id so the order is stable. The cursor's position is looked
+  // up in SQL rather than round-tripped through a JS Date, which would drop
+  // the microseconds Postgres stores. An unknown cursor matches nothing.
+  async getNotificationsSince(userId: string, cursorId: string, limit: number = 100): Promise<Notification[]> {
+    const cursor = db
+      .select({ createdAt: notifications.createdAt, id: notifications.id })
+      .from(notifications)
+      .where(and(eq(notifications.id, cursorId), eq(notifications.userId, userId)));
+
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        sql`(${notifications.createdAt}, ${notifications.id}) > ${cursor}`
+      ))
+      .orderBy(asc(notifications.createdAt), asc(notifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.inbox, true), isNull(notifications.readAt)));
+    return result?.count || 0;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    // Scoped to the owner so users can't touch each other's inbox
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: sql`COALESCE(${notifications.readAt}, NOW())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification || undefined;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+  async getNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
+    const rows = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return rows.flatMap(toNotificationPreference);
+  }
+
+  async setNotificationPreferences(userId: string, preferences: NotificationPreference[]): Promise<void> {
+    if (preferences.length === 0) return;
+
+    await db
+      .insert(notificationPreferences)
+      .values(preferences.map(preference => ({ ...preference, userId })))
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.eventType],
+        set: {
+          toast: sql`excluded.toast`,
+          inbox: sql`excluded.inbox`,
+          email: sql`excluded.email`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getNotificationDefaults(): Promise<NotificationPreference[]> {
+    const rows = await db.select().from(notificationDefaults);
+    return rows.flatMap(toNotificationPreference);
+  }
+
+  async setNotificationDefaults(preferences: NotificationPreference[], updatedBy: string): Promise<void> {
+    if (preferences.length === 0) return;
+
+    await db
+      .insert(notificationDefaults)
+      .values(preferences.map(preference => ({ ...preference, updatedBy })))
+      .onConflictDoUpdate({
+        target: notificationDefaults.eventType,
+        set: {
+          toast: sql`excluded.toast`,
+          inbox: sql`excluded.inbox`,
+          email: sql`excluded.email`,
+          updatedBy,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+
+  async createEmailVerificationToken(token: { userId: string; email: string; tokenHash: string; expiresAt: Date }): Promise<void> {
+    await db.insert(emailVerificationTokens).values(token);
+  }
+
+  // Consumes the token and marks the address verified, provided the user
+  // hasn't changed their email since the link was sent
+  async verifyEmail(tokenHash: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx
+        .delete(emailVerificationTokens)
+        .where(eq(emailVerificationTokens.tokenHash, tokenHash))
+        .returning();
+      if (!token || token.expiresAt < new Date()) {
+        return undefined;
+      }
+
+      // Someone else confirmed the address first
+      const [owner] = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.email, token.email), isNotNull(users.emailVerifiedAt)));
+      if (owner) {
+        return undefined;
+      }
+
+      const [user] = await tx
+        .update(users)
+        .set({ emailVerifiedAt: new Date() })
+        .where(and(eq(users.id, token.userId), eq(users.email, token.email)))
+        .returning();
+      if (!user) {
+        return undefined;
+      }
+
+      // The address is now owned - drop everyone else's unconfirmed claims to it
+      await tx
+        .update(users)
+        .set({ email: null })
+        .where(and(eq(users.email, token.email), isNull(users.emailVerifiedAt), sql`${users.id} <> ${user.id}`));
+      return user;
+    });
+  }
+
+  async createPasswordResetToken(token: { userId: string; tokenHash: string; channel: PasswordResetChannel; createdBy?: string; expiresAt: Date }): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, token.userId));
+      await tx.insert(passwordResetTokens).values(token);
+    });
+  }
+
+  // Tokens are deleted as they are used, so each link works once
+  async resetPassword(tokenHash: string, passwordHash: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx
+        .delete(passwordResetTokens)
+        .where(eq(passwordResetTokens.tokenHash, tokenHash))
+        .returning();
+      if (!token || token.expiresAt < new Date()) {
+        return undefined;
+      }
+
+      const [user] = await tx
+        .update(users)
+        .set({ password: passwordHash })
+        .where(eq(users.id, token.userId))
+        .returning();
+      return user || undefined;
+    });
+  }
+
+  async getTotpCredential(userId: string): Promise<TotpCredential | undefined> {
+    const [credential] = await db.select().from(totpCredentials).where(eq(totpCredentials.userId, userId));
+    return credential || undefined;
+  }
+
+  // Starting setup again replaces any secret that was never confirmed
+  async saveTotpSecret(userId: string, secret: string): Promise<TotpCredential> {
+    const [credential] = await db
+      .insert(totpCredentials)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: totpCredentials.userId,
+        set: { secret, lastUsedStep: null, createdAt: new Date() },
+      })
+      .returning();
+    return credential;
+  }
+
+  // Accepts each time step once - false means the code was already used, or
+  // a later one has been
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const claimed = await db
+      .update(totpCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(totpCredentials.userId, userId),
+        or(isNull(totpCredentials.lastUsedStep), sql`${totpCredentials.lastUsedStep} < ${step}`),
+      ))
+      .returning({ userId: totpCredentials.userId });
+    return claimed.length > 0;
+  }
+
+  async enableTwoFactor(userId: string, recoveryCodeHashes: string[]): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set({ twoFactorEnabledAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      if (!user) {
+        return undefined;
+      }
+
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+      return user;
+    });
+  }
+
+  async disableTwoFactor(userId: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(totpCredentials).where(eq(totpCredentials.userId, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      const [user] = await tx
+        .update(users)
+        .set({ twoFactorEnabledAt: null })
+        .where(eq(users.id, userId))
+        .returning();
+      return user || undefined;
+    });
+  }
+
+  async replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  // Marks the code used in the same statement that checks it, so it works once
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt),
+      ))
+      .returning({ id: recoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return result?.count || 0;
+  }
+
+  async enqueueEmail(email: InsertOutboxEmail): Promise<OutboxEmail> {
+    const [queued] = await db
+      .insert(emailOutbox)
+      .values(email)
+      .returning();
+    return queued;
+  }
+
+  // Leases due emails by pushing their next attempt out, so other server
+  // instances skip them; a crashed sender's lease simply expires
+  async claimDueEmails(limit: number, leaseMs: number): Promise<OutboxEmail[]> {
+    const due = db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, new Date())))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(emailOutbox)
+      .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
+  }
+
+  async markEmailSent(id: string): Promise<void> {
+    await db
+      .update(emailOutbox)
       .set({
-        totalPoints: sql`${users.totalPoints} + ${pointsToAdd}`
+        status: "sent",
+        sentAt: new Date(),
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        lastError: null,
       })
-      .where(eq(users.id, userId));
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // A null retryAt gives up on the email
+  async markEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({
+        status: retryAt ? "pending" : "failed",
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        nextAttemptAt: retryAt ?? undefined,
+        lastError: error,
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+  async getWebhooks(): Promise<WebhookWithSecret[]> {
+    return await db.select().from(webhooks).orderBy(asc(webhooks.createdAt));
   }
 
-  async getLeaderboard(limit: number = 10): Promise<User[]> {
+  async getWebhookById(id: string): Promise<WebhookWithSecret | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async createWebhook(webhook: InsertWebhook & { secret: string; createdBy: string }): Promise<WebhookWithSecret> {
+    const [newWebhook] = await db
+      .insert(webhooks)
+      .values(webhook)
+      .returning();
+    return newWebhook;
+  }
+
+  async updateWebhook(id: string, updates: UpdateWebhook & { secret?: string }): Promise<WebhookWithSecret | undefined> {
+    const [webhook] = await db
+      .update(webhooks)
+      .set(updates)
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook || undefined;
+  }
+
+  // Its delivery log goes with it
+  async deleteWebhook(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(webhooks)
+      .where(eq(webhooks.id, id))
+      .returning({ id: webhooks.id });
+    return deleted.length > 0;
+  }
+
+  async getSubscribedWebhooks(event: WebhookEvent): Promise<WebhookWithSecret[]> {
+    return await db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.active, true), arrayContains(webhooks.events, [event])));
+  }
+
+  async createWebhookDeliveries(deliveries: { webhookId: string; event: string; payload: WebhookPayload; nextAttemptAt?: Date }[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+
+    return await db
+      .insert(webhookDeliveries)
+      .values(deliveries)
+      .returning();
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number = 50): Promise<WebhookDelivery[]> {
     return await db
       .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  // Same leasing scheme as claimDueEmails
+  async claimDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, new Date())))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  // An attempt without an error succeeded; otherwise a null retryAt gives up
+  async recordWebhookAttempt(id: string, attempt: { responseStatus: number | null; error: string | null; retryAt: Date | null }): Promise<WebhookDelivery | undefined> {
+    const succeeded = attempt.error === null;
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({
+        status: succeeded ? "succeeded" : attempt.retryAt ? "pending" : "failed",
+        attempts: sql`${webhookDeliveries.attempts} + 1`,
+        responseStatus: attempt.responseStatus,
+        lastError: attempt.error,
+        nextAttemptAt: attempt.retryAt ?? undefined,
+        deliveredAt: succeeded ? new Date() : undefined,
+      })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery || undefined;
+  }
+  async getChatIntegrations(): Promise<ChatIntegration[]> {
+    return await db.select().from(chatIntegrations).orderBy(asc(chatIntegrations.createdAt));
+  }
+
+  async getChatIntegrationById(id: string): Promise<ChatIntegration | undefined> {
+    const [integration] = await db.select().from(chatIntegrations).where(eq(chatIntegrations.id, id));
+    return integration || undefined;
+  }
+
+  async createChatIntegration(integration: InsertChatIntegration & { createdBy: string }): Promise<ChatIntegration> {
+    const [newIntegration] = await db
+      .insert(chatIntegrations)
+      .values(integration)
+      .returning();
+    return newIntegration;
+  }
+
+  async updateChatIntegration(id: string, updates: UpdateChatIntegration): Promise<ChatIntegration | undefined> {
+    const [integration] = await db
+      .update(chatIntegrations)
+      .set(updates)
+      .where(eq(chatIntegrations.id, id))
+      .returning();
+    return integration || undefined;
+  }
+
+  async deleteChatIntegration(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(chatIntegrations)
+      .where(eq(chatIntegrations.id, id))
+      .returning({ id: chatIntegrations.id });
+    return deleted.length > 0;
+  }
+
+  async getSubscribedChatIntegrations(event: ChatEvent): Promise<ChatIntegration[]> {
+    return await db
+      .select()
+      .from(chatIntegrations)
+      .where(and(eq(chatIntegrations.active, true), arrayContains(chatIntegrations.events, [event])));
+  }
+
+  async recordChatPost(id: string, error: string | null): Promise<void> {
+    await db
+      .update(chatIntegrations)
+      .set(error ? { lastError: error } : { lastPostedAt: new Date(), lastError: null })
+      .where(eq(chatIntegrations.id, id));
+  }
+
+  // Marks today's snapshot as taken and returns the integrations this
+  // instance should post it to - other instances get nothing back
+  async claimDailyLeaderboardPosts(day: string): Promise<ChatIntegration[]> {
+    return await db
+      .update(chatIntegrations)
+      .set({ leaderboardPostedOn: day })
+      .where(and(
+        eq(chatIntegrations.active, true),
+        arrayContains(chatIntegrations.events, ["leaderboard.daily"]),
+        sql`${chatIntegrations.leaderboardPostedOn} IS DISTINCT FROM ${day}`
+      ))
+      .returning();
+  }
+
+  async recordAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [recorded] = await db
+      .insert(auditEvents)
+      .values(event)
+      .returning();
+    return recorded;
+  }
+
+  async getAuditEvents(filters: Omit<AuditQuery, "limit" | "offset">, page: { limit: number; offset: number }): Promise<AuditEventWithActor[]> {
+    // Newest first; the actor is left-joined so anonymous events are kept
+    return await db
+      .select({ ...getTableColumns(auditEvents), actorUsername: users.username })
+      .from(auditEvents)
+      .leftJoin(users, eq(auditEvents.actorId, users.id))
+      .where(and(
+        filters.actorId ? eq(auditEvents.actorId, filters.actorId) : undefined,
+        filters.action ? eq(auditEvents.action, filters.action) : undefined,
+        filters.from ? gte(auditEvents.createdAt, filters.from) : undefined,
+        filters.to ? lte(auditEvents.createdAt, filters.to) : undefined,
+      ))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(page.limit)
+      .offset(page.offset);
+  }
+
+  async createInvitation(invitation: { tokenHash: string; role: UserRole; note?: string; createdBy: string; expiresAt: Date }): Promise<Invitation> {
+    const [created] = await db
+      .insert(invitations)
+      .values(invitation)
+      .returning(invitationColumns);
+    return created;
+  }
+
+  async getInvitations(): Promise<InvitationWithUsers[]> {
+    const creator = alias(users, "creator");
+    const invitee = alias(users, "invitee");
+    return await db
+      .select({ ...invitationColumns, createdByUsername: creator.username, usedByUsername: invitee.username })
+      .from(invitations)
+      .innerJoin(creator, eq(invitations.createdBy, creator.id))
+      .leftJoin(invitee, eq(invitations.usedBy, invitee.id))
+      .orderBy(desc(invitations.createdAt));
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const [invitation] = await db
+      .select(invitationColumns)
+      .from(invitations)
+      .where(eq(invitations.tokenHash, tokenHash));
+    return invitation || undefined;
+  }
+
+  // Only pending invitations can be revoked
+  async revokeInvitation(id: string): Promise<Invitation | undefined> {
+    const [invitation] = await db
+      .update(invitations)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(invitations.id, id),
+        isNull(invitations.usedAt),
+        isNull(invitations.revokedAt),
+        gt(invitations.expiresAt, new Date())
+      ))
+      .returning(invitationColumns);
+    return invitation || undefined;
+  }
+
+  // Claims the invitation and creates the account in one transaction, so a
+  // link can't be used twice and a taken username doesn't burn it
+  async acceptInvitation(tokenHash: string, user: InsertUser): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .update(invitations)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(invitations.tokenHash, tokenHash),
+          isNull(invitations.usedAt),
+          isNull(invitations.revokedAt),
+          gt(invitations.expiresAt, new Date())
+        ))
+        .returning();
+      if (!invitation) return undefined;
+
+      const created = await insertUser(tx, { ...user, role: invitation.role });
+      await tx
+        .update(invitations)
+        .set({ usedBy: created.id })
+        .where(eq(invitations.id, invitation.id));
+      return created;
+    });
+  }
+
+  async getSeasons(): Promise<Season[]> {
+    return await db
+      .select()
+      .from(seasons)
+      .orderBy(desc(seasons.startsAt));
+  }
+
+  async getSeasonById(id: string): Promise<Season | undefined> {
+    const [season] = await db.select().from(seasons).where(eq(seasons.id, id));
+    return season || undefined;
+  }
+
+  async getActiveSeason(): Promise<Season | undefined> {
+    // A season stays current past its end date until an admin closes it
+    const [season] = await db
+      .select()
+      .from(seasons)
+      .where(and(isNull(seasons.closedAt), lte(seasons.startsAt, new Date())))
+      .orderBy(desc(seasons.startsAt))
+      .limit(1);
+    return season || undefined;
+  }
+
+  async createSeason(season: InsertSeason & { createdBy: string }): Promise<Season> {
+    const [newSeason] = await db
+      .insert(seasons)
+      .values(season)
+      .returning();
+    return newSeason;
+  }
+
+  async closeSeason(id: string, closedBy: string): Promise<Season | undefined> {
+    const season = await this.getSeasonById(id);
+    if (!season || season.closedAt) {
+      return undefined;
+    }
+
+    const standings = await this.getLeaderboard(1000, { from: season.startsAt, to: season.endsAt });
+
+    return await db.transaction(async (tx) => {
+      // Guard against two admins closing the same season at once
+      const [closedSeason] = await tx
+        .update(seasons)
+        .set({ closedAt: new Date(), closedBy })
+        .where(and(eq(seasons.id, id), isNull(seasons.closedAt)))
+        .returning();
+
+      if (!closedSeason) {
+        return undefined;
+      }
+
+      if (standings.length > 0) {
+        await tx.insert(seasonStandings).values(standings.map((user, index) => ({
+          seasonId: id,
+          userId: user.id,
+          rank: index + 1,
+          points: user.points,
+        })));
+      }
+      return closedSeason;
+    });
+  }
+
+  async getSeasonStandings(seasonId: string): Promise<SeasonStanding[]> {
+    return await db
+      .select({ ...getTableColumns(seasonStandings), username: users.username })
+      .from(seasonStandings)
+      .innerJoin(users, eq(seasonStandings.userId, users.id))
+      .where(eq(seasonStandings.seasonId, seasonId))
+      .orderBy(asc(seasonStandings.rank));
+  }
+
+  async getApprovedTaskCounts(userId: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ type: tasks.type, count: sql<number>`COUNT(*)::int` })
+      .from(tasks)
+      .where(and(
+        eq(tasks.status, "approved"),
+        or(eq(tasks.submittedBy, userId), eq(tasks.assignedTo, userId))
+      ))
+      .groupBy(tasks.type);
+
+    return Object.fromEntries(rows.map(row => [row.type, row.count]));
+  }
+
+  async getEarnedPoints(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${pointTransactions.delta}), 0)::int` })
+      .from(pointTransactions)
+      .where(and(eq(pointTransactions.userId, userId), eq(pointTransactions.reason, "task_approved")));
+    return result?.total || 0;
+  }
+
+  async getUserBadges(userId: string): Promise<UserBadge[]> {
+    return await db
+      .select()
+      .from(userBadges)
+      .where(eq(userBadges.userId, userId))
+      .orderBy(asc(userBadges.awardedAt));
+  }
+
+  async getBadgesForUsers(userIds: string[]): Promise<UserBadge[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(userBadges)
+      .where(inArray(userBadges.userId, userIds))
+      .orderBy(asc(userBadges.awardedAt));
+  }
+
+  async awardBadge(userId: string, badgeId: string, taskId?: string): Promise<UserBadge | undefined> {
+    // Returns undefined when the user already holds the badge
+    const [badge] = await db
+      .insert(userBadges)
+      .values({ userId, badgeId, taskId })
+      .onConflictDoNothing()
+      .returning();
+    return badge || undefined;
+  }
+
+  async getLeaderboard(limit: number = 10, range?: LeaderboardRange): Promise<RankedUser[]> {
+    // Without a range, rank by lifetime earned points
+    if (!range?.from && !range?.to) {
+      const earned = earnedPointsSubquery();
+      const lifetimePoints = sql<number>`COALESCE(${earned.earned}, 0)::int`;
+      return await db
+        .select({ ...rankedUserColumns, points: lifetimePoints })
+        .from(users)
+        .leftJoin(earned, eq(earned.userId, users.id))
+        .where(inArray(users.role, RANKED_ROLES))
+        .orderBy(desc(lifetimePoints))
+        .limit(limit);
+    }
+
+    // Within a range, rank by points awarded for tasks approved in that window
+    const points = sql<number>`COALESCE(SUM(${pointTransactions.delta}), 0)::int`;
+    return await db
+      .select({ ...rankedUserColumns, points })
       .from(users)
-      .where(eq(users.role, "user"))
-      .orderBy(desc(users.totalPoints))
+      .innerJoin(pointTransactions, and(
+        eq(pointTransactions.userId, users.id),
+        eq(pointTransactions.reason, "task_approved")
+      ))
+      .innerJoin(tasks, eq(pointTransactions.taskId, tasks.id))
+      .where(and(
+        inArray(users.role, RANKED_ROLES),
+        range.from ? gte(tasks.reviewedAt, range.from) : undefined,
+        range.to ? lte(tasks.reviewedAt, range.to) : undefined
+      ))
+      .groupBy(users.id)
+      .orderBy(desc(points))
       .limit(limit);
   }
 
@@ -205,14 +1632,24 @@ export class DatabaseStorage implements IStorage {
     const userTasks = await this.getTasksByUser(userId);
     const completedTasks = userTasks.filter(task => task.status === "approved").length;
     const pendingTasks = userTasks.filter(task => 
-      ["pending", "assigned", "in_progress", "completed"].includes(task.status)
+      ["pending", "assigned", "in_progress", "overdue", "completed"].includes(task.status)
     ).length;
 
-    // Calculate rank
-    const [rankResult] = await db
-      .select({ rank: sql<number>`ROW_NUMBER() OVER (ORDER BY total_points DESC)` })
+    // Rank by lifetime earned points, the same order as the leaderboard
+    const earned = earnedPointsSubquery();
+    const ranked = db
+      .select({
+        id: users.id,
+        rank: sql<number>`ROW_NUMBER() OVER (ORDER BY COALESCE(${earned.earned}, 0) DESC)::int`.as("rank"),
+      })
       .from(users)
-      .where(and(eq(users.role, "user"), eq(users.id, userId)));
+      .leftJoin(earned, eq(earned.userId, users.id))
+      .where(inArray(users.role, RANKED_ROLES))
+      .as("ranked");
+    const [rankResult] = await db
+      .select({ rank: ranked.rank })
+      .from(ranked)
+      .where(eq(ranked.id, userId));
 
     return {
       totalPoints: user.totalPoints,
@@ -227,6 +1664,7 @@ export class DatabaseStorage implements IStorage {
     approvedToday: number;
     pointsDistributed: number;
     activeUsers: number;
+    teamTotals: TeamStanding[];
   }> {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -245,20 +1683,25 @@ export class DatabaseStorage implements IStorage {
       ));
 
     const [pointsResult] = await db
-      .select({ total: sql<number>`SUM(total_points)` })
-      .from(users)
-      .where(eq(users.role, "user"));
+      .select({ total: sql<number>`COALESCE(SUM(${pointTransactions.delta}), 0)::int` })
+      .from(pointTransactions)
+      .innerJoin(users, eq(pointTransactions.userId, users.id))
+      .where(and(
+        inArray(users.role, RANKED_ROLES),
+        inArray(pointTransactions.reason, EARNED_POINT_REASONS)
+      ));
 
     const [activeUsersResult] = await db
       .select({ count: sql<number>`COUNT(*)` })
       .from(users)
-      .where(eq(users.role, "user"));
+      .where(inArray(users.role, RANKED_ROLES));
 
     return {
       pendingTasks: pendingTasksResult?.count || 0,
       approvedToday: approvedTodayResult?.count || 0,
       pointsDistributed: pointsResult?.total || 0,
       activeUsers: activeUsersResult?.count || 0,
+      teamTotals: await this.getTeamLeaderboard(100),
     };
   }
 }
@@ -0,0 +1,251 @@
+import type { Express } from "express";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { recordAudit } from "./audit";
+import { totpCodeSchema, twoFactorChallengeSchema, type TwoFactorSetup, type TwoFactorStatus } from "@shared/schema";
+import { ROLES } from "@shared/permissions";
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_DRIFT_STEPS = 1; // Accept the previous and next code too, for clock skew
+const TOTP_ISSUER = "ProofWork";
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(bytes: Buffer) {
+  let output = "";
+  let value = 0;
+  let bits = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    value = ((value << 8) | bytes[i]) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string) {
+  const bytes: number[] = [];
+  let value = 0;
+  let bits = 0;
+  for (const char of encoded.replace(/=+$/, "").toUpperCase().split("")) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = ((value << 5) | index) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP - the TOTP code for a time step is the HOTP of the step number
+function hotp(secret: string, counter: number) {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  message.writeUInt32BE(counter >>> 0, 4);
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return code.toString().padStart(TOTP_DIGITS, "0");
+}
+
+// The time step the code belongs to, or undefined when it matches none in the
+// drift window
+function matchTotpStep(secret: string, code: string) {
+  const current = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = current + drift;
+    if (timingSafeEqual(Buffer.from(hotp(secret, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return undefined;
+}
+
+function otpauthUrl(username: string, secret: string) {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// Recovery codes are typed by hand, so dashes, spaces and case don't matter
+function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(code.toLowerCase().replace(/[^0-9a-f]/g, "")).digest("hex");
+}
+
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Checks a sign-in code: six digits from the authenticator app, or an unused
+// recovery code, which is then spent. App codes are also single-use.
+export async function verifySecondFactor(userId: string, code: string): Promise<"totp" | "recovery_code" | null> {
+  if (new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    const credential = await storage.getTotpCredential(userId);
+    const step = credential && matchTotpStep(credential.secret, code);
+    return step !== undefined && (await storage.claimTotpStep(userId, step)) ? "totp" : null;
+  }
+  return (await storage.useRecoveryCode(userId, hashRecoveryCode(code))) ? "recovery_code" : null;
+}
+
+export function setupTwoFactor(app: Express) {
+  app.get("/api/user/two-factor", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const status: TwoFactorStatus = {
+        enabled: !!req.user!.twoFactorEnabledAt,
+        required: !!ROLES[req.user!.role].requiresTwoFactor,
+        recoveryCodesRemaining: req.user!.twoFactorEnabledAt ? await storage.countRecoveryCodes(req.user!.id) : 0,
+      };
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Starts enrollment with a fresh secret. Nothing changes at sign-in until
+  // a code from the app has been confirmed.
+  app.post("/api/user/two-factor/setup", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (req.user!.twoFactorEnabledAt) {
+      return res.status(400).json({ message: "Two-factor authentication is already on" });
+    }
+
+    try {
+      const { secret } = await storage.saveTotpSecret(req.user!.id, base32Encode(randomBytes(20)));
+      const url = otpauthUrl(req.user!.username, secret);
+      const setup: TwoFactorSetup = { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url) };
+      res.json(setup);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Turns two-factor on and returns the recovery codes - the only time they
+  // are shown. Other sessions, signed in with just a password, are ended.
+  app.post("/api/user/two-factor/enable", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (req.user!.twoFactorEnabledAt) {
+      return res.status(400).json({ message: "Two-factor authentication is already on" });
+    }
+
+    const parsed = totpCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid code" });
+    }
+
+    try {
+      const credential = await storage.getTotpCredential(req.user!.id);
+      if (!credential) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = matchTotpStep(credential.secret, parsed.data.code);
+      if (step === undefined || !(await storage.claimTotpStep(req.user!.id, step))) {
+        return res.status(400).json({ message: "That code didn't match - check the time on your device and try again" });
+      }
+
+      const codes = generateRecoveryCodes();
+      const user = await storage.enableTwoFactor(req.user!.id, codes.map(hashRecoveryCode));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await storage.deleteUserSessions(user.id, req.sessionID);
+      recordAudit(req, { action: "auth.two_factor_enabled", target: { type: "user", id: user.id } });
+
+      res.json({ user, recoveryCodes: codes });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to turn on two-factor authentication" });
+    }
+  });
+
+  // Replaces every recovery code, used or not
+  app.post("/api/user/two-factor/recovery-codes", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user!.twoFactorEnabledAt) {
+      return res.status(400).json({ message: "Two-factor authentication is off" });
+    }
+
+    const parsed = twoFactorChallengeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid code" });
+    }
+
+    try {
+      if (!(await verifySecondFactor(req.user!.id, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const codes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(req.user!.id, codes.map(hashRecoveryCode));
+      recordAudit(req, { action: "auth.recovery_codes_regenerated", target: { type: "user", id: req.user!.id } });
+
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.post("/api/user/two-factor/disable", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user!.twoFactorEnabledAt) {
+      return res.status(400).json({ message: "Two-factor authentication is off" });
+    }
+    if (ROLES[req.user!.role].requiresTwoFactor) {
+      return res.status(403).json({ message: `Two-factor authentication is required for the ${ROLES[req.user!.role].label} role` });
+    }
+
+    const parsed = twoFactorChallengeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid code" });
+    }
+
+    try {
+      if (!(await verifySecondFactor(req.user!.id, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const user = await storage.disableTwoFactor(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      recordAudit(req, { action: "auth.two_factor_disabled", target: { type: "user", id: user.id } });
+
+      res.json(user);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to turn off two-factor authentication" });
+    }
+  });
+}
@@ -0,0 +1,240 @@
+import type { Express } from "express";
+import type { Server } from "http";
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { storage } from "./storage";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import {
+  insertWebhookSchema,
+  updateWebhookSchema,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type WebhookPayload,
+  type WebhookWithSecret,
+} from "@shared/schema";
+
+const DELIVERY_POLL_INTERVAL_MS = 15_000;
+const DELIVERY_BATCH_SIZE = 10;
+// How long a claimed delivery is hidden from other instances while it is sent
+const DELIVERY_LEASE_MS = 2 * 60_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_DELIVERY_ATTEMPTS = 8;
+
+// Retry after 30s, 1m, 2m, 4m... capped at an hour
+function retryDelayMs(attempts: number) {
+  return Math.min(30_000 * 2 ** (attempts - 1), 60 * 60_000);
+}
+
+function generateSecret() {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// The secret is only ever returned on creation or rotation
+function withoutSecret({ secret, ...webhook }: WebhookWithSecret): Webhook {
+  return webhook;
+}
+
+// Receivers verify the X-ProofWork-Signature header by computing
+// HMAC-SHA256("<X-ProofWork-Timestamp>.<raw body>") with the webhook secret
+// and rejecting timestamps that are too old
+function sign(secret: string, timestamp: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Makes one attempt and records the outcome, scheduling a retry if it failed
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery | undefined> {
+  const webhook = await storage.getWebhookById(delivery.webhookId);
+  if (!webhook) return undefined;
+
+  const attempts = delivery.attempts + 1;
+  const retryAt = attempts < MAX_DELIVERY_ATTEMPTS ? new Date(Date.now() + retryDelayMs(attempts)) : null;
+
+  if (!webhook.active) {
+    return await storage.recordWebhookAttempt(delivery.id, { responseStatus: null, error: "Webhook is disabled", retryAt: null });
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "ProofWork-Webhooks/1.0",
+        "X-ProofWork-Event": delivery.event,
+        "X-ProofWork-Delivery": delivery.id,
+        "X-ProofWork-Timestamp": timestamp,
+        "X-ProofWork-Signature": sign(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      return await storage.recordWebhookAttempt(delivery.id, { responseStatus: response.status, error: null, retryAt: null });
+    }
+    return await storage.recordWebhookAttempt(delivery.id, {
+      responseStatus: response.status,
+      error: `Endpoint responded with ${response.status} ${response.statusText}`.trim(),
+      retryAt,
+    });
+  } catch (error) {
+    return await storage.recordWebhookAttempt(delivery.id, {
+      responseStatus: null,
+      error: error instanceof Error ? error.message : String(error),
+      retryAt,
+    });
+  }
+}
+
+let draining = false;
+
+// Sends everything that is due; concurrent calls within this instance are
+// collapsed into the one already running
+async function drainDeliveries() {
+  if (draining) return;
+  draining = true;
+
+  try {
+    while (true) {
+      const batch = await storage.claimDueWebhookDeliveries(DELIVERY_BATCH_SIZE, DELIVERY_LEASE_MS);
+      if (batch.length === 0) break;
+
+      await Promise.all(batch.map(delivery => attemptDelivery(delivery)));
+    }
+  } catch (error) {
+    console.error('Error draining webhook deliveries:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+function buildPayload(event: WebhookPayload["event"], data: Record<string, unknown>): WebhookPayload {
+  return { id: randomUUID(), event, createdAt: new Date().toISOString(), data };
+}
+
+// Queues the event for every active webhook subscribed to it. Like
+// sendNotification this never throws, so callers don't need to await it.
+export async function dispatchWebhookEvent(event: WebhookEvent, data: Record<string, unknown>) {
+  try {
+    const subscribed = await storage.getSubscribedWebhooks(event);
+    if (subscribed.length === 0) return;
+
+    const payload = buildPayload(event, data);
+    await storage.createWebhookDeliveries(subscribed.map(webhook => ({ webhookId: webhook.id, event, payload })));
+    drainDeliveries();
+  } catch (error) {
+    console.error(`Error dispatching webhook event ${event}:`, error);
+  }
+}
+
+export function setupWebhooks(app: Express, httpServer: Server) {
+  const poll = setInterval(drainDeliveries, DELIVERY_POLL_INTERVAL_MS);
+  httpServer.on('close', () => clearInterval(poll));
+
+  app.get("/api/admin/webhooks", requirePermission("integrations.view"), async (req, res) => {
+    try {
+      const all = await storage.getWebhooks();
+      res.json(all.map(withoutSecret));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post("/api/admin/webhooks", requirePermission("integrations.manage"), async (req, res) => {
+    try {
+      const validatedData = insertWebhookSchema.parse(req.body);
+      const webhook = await storage.createWebhook({
+        ...validatedData,
+        secret: generateSecret(),
+        createdBy: req.user!.id,
+      });
+      recordAudit(req, { action: "webhook.created", target: { type: "webhook", id: webhook.id }, after: webhook });
+      res.status(201).json(webhook);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid webhook data" });
+    }
+  });
+
+  app.patch("/api/admin/webhooks/:id", requirePermission("integrations.manage"), async (req, res) => {
+    try {
+      const validatedData = updateWebhookSchema.parse(req.body);
+      const before = await storage.getWebhookById(req.params.id);
+      const webhook = await storage.updateWebhook(req.params.id, validatedData);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      recordAudit(req, { action: "webhook.updated", target: { type: "webhook", id: webhook.id }, before, after: webhook });
+      res.json(withoutSecret(webhook));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid webhook data" });
+    }
+  });
+
+  app.delete("/api/admin/webhooks/:id", requirePermission("integrations.manage"), async (req, res) => {
+    try {
+      const before = await storage.getWebhookById(req.params.id);
+      const deleted = await storage.deleteWebhook(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      recordAudit(req, { action: "webhook.deleted", target: { type: "webhook", id: req.params.id }, before });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  // Issues a new signing secret - the old one stops working immediately
+  app.post("/api/admin/webhooks/:id/secret", requirePermission("integrations.manage"), async (req, res) => {
+    try {
+      const webhook = await storage.updateWebhook(req.params.id, { secret: generateSecret() });
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      recordAudit(req, { action: "webhook.secret_rotated", target: { type: "webhook", id: webhook.id } });
+      res.json(webhook);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to rotate webhook secret" });
+    }
+  });
+
+  app.get("/api/admin/webhooks/:id/deliveries", requirePermission("integrations.view"), async (req, res) => {
+    try {
+      const deliveries = await storage.getWebhookDeliveries(req.params.id);
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Sends a "ping" event right away and reports how the endpoint responded.
+  // A failed ping is retried like any other delivery.
+  app.post("/api/admin/webhooks/:id/test", requirePermission("integrations.manage"), async (req, res) => {
+    try {
+      const webhook = await storage.getWebhookById(req.params.id);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const payload = buildPayload("ping", {
+        webhookId: webhook.id,
+        message: `Test event sent by ${req.user!.username}`,
+      });
+      // Leased up front so the background sender doesn't pick it up too
+      const [delivery] = await storage.createWebhookDeliveries([{
+        webhookId: webhook.id,
+        event: "ping",
+        payload,
+        nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+      }]);
+
+      res.json(await attemptDelivery(delivery));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send test event" });
+    }
+  });
+}
@@ -0,0 +1,87 @@
+import type { User } from "./schema";
+
+export type UserRole = User["role"];
+
+export const PERMISSIONS = [
+  "tasks.view",
+  "tasks.review",
+  "tasks.assign",
+  "tasks.assign_team", // Only to teams the user leads, and their members
+  "users.view",
+  "users.manage_roles",
+  "users.invite",
+  "users.reset_passwords",
+  "points.view",
+  "points.adjust",
+  "rewards.view",
+  "rewards.manage",
+  "teams.manage",
+  "seasons.manage",
+  "integrations.view",
+  "integrations.manage",
+  "notifications.view_defaults",
+  "notifications.manage_defaults",
+  "audit.view",
+  "stats.view",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// What each role may do - routes check against this table through
+// requirePermission(). Admins can do everything, and must sign in with
+// two-factor authentication before they can.
+export const ROLES: Record<UserRole, { label: string; description: string; permissions: readonly Permission[]; requiresTwoFactor?: boolean }> = {
+  user: {
+    label: "User",
+    description: "Submits and completes tasks",
+    permissions: [],
+  },
+  reviewer: {
+    label: "Reviewer",
+    description: "Reviews submitted and completed tasks",
+    permissions: ["tasks.view", "tasks.review", "users.view", "stats.view"],
+  },
+  team_lead: {
+    label: "Team Lead",
+    description: "Assigns tasks to the teams they lead",
+    permissions: ["tasks.assign_team", "users.view"],
+  },
+  auditor: {
+    label: "Auditor",
+    description: "Read-only access to the admin dashboard and audit log",
+    permissions: [
+      "tasks.view",
+      "users.view",
+      "points.view",
+      "rewards.view",
+      "integrations.view",
+      "notifications.view_defaults",
+      "audit.view",
+      "stats.view",
+    ],
+  },
+  admin: {
+    label: "Admin",
+    description: "Full access",
+    permissions: PERMISSIONS,
+    requiresTwoFactor: true,
+  },
+};
+
+// Roles that earn points and are ranked on the leaderboard. Team leads are
+// members of their own team, so they compete alongside it.
+export const RANKED_ROLES: UserRole[] = ["user", "team_lead"];
+
+export function hasPermission(user: Pick<User, "role"> | null | undefined, permission: Permission) {
+  return !!user && ROLES[user.role].permissions.includes(permission);
+}
+
+// The role's permissions are withheld until the user turns on two-factor
+export function needsTwoFactorSetup(user: Pick<User, "role" | "twoFactorEnabledAt"> | null | undefined) {
+  return !!user && !!ROLES[user.role].requiresTwoFactor && !user.twoFactorEnabledAt;
+}
+
+// Staff can open the admin dashboard and receive staff-only notifications
+export function isStaff(user: Pick<User, "role"> | null | undefined) {
+  return !!user && ROLES[user.role].permissions.length > 0;
+}
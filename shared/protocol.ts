@@ -0,0 +1,122 @@
+import { z } from "zod";
+
+// Bump when a message changes shape in a way old clients can't handle.
+// Clients that see an unknown version or event type fall back to showing
+// the notification's title and message.
+export const PROTOCOL_VERSION = 1;
+
+const eventBase = {
+  title: z.string(),
+  message: z.string(),
+};
+
+// Notification events - add new event types here
+export const notificationEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...eventBase,
+    type: z.literal("task_submitted"),
+    taskId: z.string(),
+  }),
+  z.object({
+    ...eventBase,
+    type: z.literal("task_reviewed"),
+    taskId: z.string(),
+    status: z.enum(["approved", "rejected"]),
+    points: z.number().int(),
+  }),
+  z.object({
+    ...eventBase,
+    type: z.literal("task_assigned"),
+    taskId: z.string(),
+    deadline: z.string(),
+  }),
+  z.object({
+    ...eventBase,
+    type: z.literal("task_deadline"),
+    taskId: z.string(),
+    deadline: z.string(),
+  }),
+  z.object({
+    ...eventBase,
+    type: z.literal("task_overdue"),
+    taskId: z.string(),
+    deadline: z.string(),
+  }),
+  z.object({
+    ...eventBase,
+    type: z.literal("task_completed"),
+    taskId: z.string(),
+  }),
+  z.object({
+    ...eventBase,
+    type: z.literal("badge_earned"),
+    badgeId: z.string(),
+  }),
+  z.object({
+    ...eventBase,
+    type: z.literal("redemption_requested"),
+    redemptionId: z.string(),
+  }),
+  z.object({
+    ...eventBase,
+    type: z.literal("redemption_reviewed"),
+    redemptionId: z.string(),
+    status: z.enum(["fulfilled", "refused"]),
+  }),
+]);
+
+// How each event type is presented in notification settings. Email is only
+// offered for events that have an email template; staff-only events are
+// hidden from regular users.
+export const NOTIFICATION_EVENTS: Record<NotificationEventType, { label: string; email: boolean; staffOnly: boolean }> = {
+  task_assigned: { label: "Task assigned to you", email: true, staffOnly: false },
+  task_reviewed: { label: "Task approved or rejected", email: true, staffOnly: false },
+  task_deadline: { label: "Deadline reminders", email: true, staffOnly: false },
+  badge_earned: { label: "Badge earned", email: false, staffOnly: false },
+  redemption_reviewed: { label: "Redemption fulfilled or refused", email: false, staffOnly: false },
+  task_submitted: { label: "Task submitted for review", email: false, staffOnly: true },
+  task_completed: { label: "Assigned task completed", email: false, staffOnly: true },
+  task_overdue: { label: "Assigned task missed its deadline", email: true, staffOnly: true },
+  redemption_requested: { label: "Reward redemption requested", email: false, staffOnly: true },
+};
+
+export const notificationEventTypeSchema = z.enum(
+  Object.keys(NOTIFICATION_EVENTS) as [NotificationEventType, ...NotificationEventType[]],
+);
+
+// Server -> client messages
+export const serverMessageSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("hello"),
+    v: z.number().int(),
+    // ID of the newest stored notification - clients reconnect with
+    // ?since=<cursor> to have anything newer replayed
+    cursor: z.string().nullable(),
+  }),
+  z.object({
+    kind: z.literal("notification"),
+    v: z.number().int(),
+    id: z.string(),
+    timestamp: z.string(),
+    // False when the user has turned toasts off for this event type - the
+    // client still refreshes its data but stays quiet
+    toast: z.boolean().default(true),
+    event: notificationEventSchema,
+  }),
+]);
+
+// The minimum every version of a notification message is guaranteed to carry
+export const fallbackNotificationSchema = z.object({
+  kind: z.literal("notification"),
+  id: z.string(),
+  event: z.object({
+    type: z.string(),
+    title: z.string(),
+    message: z.string(),
+  }).passthrough(),
+});
+
+export type NotificationEvent = z.infer<typeof notificationEventSchema>;
+export type NotificationEventType = NotificationEvent["type"];
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type FallbackNotification = z.infer<typeof fallbackNotificationSchema>;
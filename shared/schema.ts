@@ -1,13 +1,22 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, pgEnum, unique, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { notificationEventTypeSchema } from "./protocol";
 
 // Enums
-export const userRoleEnum = pgEnum("user_role", ["user", "admin"]);
-export const taskStatusEnum = pgEnum("task_status", ["pending", "assigned", "in_progress", "completed", "approved", "rejected"]);
+export const userRoleEnum = pgEnum("user_role", ["user", "reviewer", "team_lead", "auditor", "admin"]);
+export const taskStatusEnum = pgEnum("task_status", ["pending", "assigned", "in_progress", "overdue", "expired", "completed", "approved", "rejected"]);
+export const latePolicyEnum = pgEnum("late_policy", ["allow_late", "expire"]);
 export const taskTypeEnum = pgEnum("task_type", ["content_creation", "bug_report", "feature_request", "community_help", "documentation"]);
+export const pointReasonEnum = pgEnum("point_reason", ["task_approved", "adjustment", "opening_balance", "redemption", "redemption_refund"]);
+export const redemptionStatusEnum = pgEnum("redemption_status", ["pending", "fulfilled", "refused"]);
+export const emailStatusEnum = pgEnum("email_status", ["pending", "sent", "failed"]);
+export const chatPlatformEnum = pgEnum("chat_platform", ["slack", "discord"]);
+export const taskReminderEnum = pgEnum("task_reminder", ["due_48h", "due_4h"]);
+export const passwordResetChannelEnum = pgEnum("password_reset_channel", ["email", "link"]);
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", ["pending", "succeeded", "failed"]);
 
 // Users table
 export const users = pgTable("users", {
@@ -16,9 +25,33 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   role: userRoleEnum("role").notNull().default("user"),
   totalPoints: integer("total_points").notNull().default(0),
+  email: text("email"), // Only used for notifications once verified
+  emailVerifiedAt: timestamp("email_verified_at"),
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"), // Set once a TOTP code has been confirmed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // Only a verified address is owned - unverified claims can't lock out its owner
+  uniqueIndex("users_verified_email_unique").on(table.email).where(sql`${table.emailVerifiedAt} IS NOT NULL`),
+]);
+
+// Teams (squads) - a user can belong to several teams
+export const teams = pgTable("teams", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  leadId: varchar("lead_id").references(() => users.id), // Team lead, must be a member
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const teamMembers = pgTable("team_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  teamId: varchar("team_id").references(() => teams.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (table) => [
+  unique("team_members_team_user_unique").on(table.teamId, table.userId),
+]);
+
 // Tasks table
 export const tasks = pgTable("tasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -30,21 +63,292 @@ export const tasks = pgTable("tasks", {
   submittedBy: varchar("submitted_by").references(() => users.id), // For user-submitted tasks
   assignedTo: varchar("assigned_to").references(() => users.id), // For admin-assigned tasks
   assignedBy: varchar("assigned_by").references(() => users.id), // Which admin assigned it
+  teamId: varchar("team_id").references(() => teams.id), // Set when assigned to a whole team
   reviewedBy: varchar("reviewed_by").references(() => users.id),
   rejectionReason: text("rejection_reason"),
   proofFile: text("proof_file"), // Path to uploaded proof file
   deadline: timestamp("deadline"), // When the task should be completed
+  latePolicy: latePolicyEnum("late_policy").notNull().default("allow_late"), // What happens once the deadline passes
+  latePenaltyPercent: integer("late_penalty_percent").notNull().default(0), // Taken off the points for late completion
+  completedLate: boolean("completed_late").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   reviewedAt: timestamp("reviewed_at"),
   completedAt: timestamp("completed_at"), // When user marked as complete
+  version: integer("version").notNull().default(0), // Bumped on every change - reviews must send back the version they saw
+});
+
+// Points ledger - append-only, users.totalPoints is a cached sum of these rows
+export const pointTransactions = pgTable("point_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  delta: integer("delta").notNull(),
+  reason: pointReasonEnum("reason").notNull(),
+  taskId: varchar("task_id").references(() => tasks.id), // Task that earned the points, if any
+  actorId: varchar("actor_id").references(() => users.id), // Admin who caused the entry, if any
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // A task's approval is only ever paid out once
+  uniqueIndex("point_transactions_task_approved_unique").on(table.taskId).where(sql`${table.reason} = 'task_approved'`),
+  // Pre-ledger balances are carried over once per user
+  uniqueIndex("point_transactions_opening_balance_unique").on(table.userId).where(sql`${table.reason} = 'opening_balance'`),
+]);
+
+// Rewards catalog
+export const rewards = pgTable("rewards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  cost: integer("cost").notNull(),
+  stock: integer("stock").notNull().default(0),
+  active: boolean("active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Redemption requests - points are held when requested and refunded if refused
+export const redemptions = pgTable("redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rewardId: varchar("reward_id").references(() => rewards.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  cost: integer("cost").notNull(), // Cost at the time of redemption
+  status: redemptionStatusEnum("status").notNull().default("pending"),
+  note: text("note"), // Admin note shown to the user
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+// Badges earned per user - badge definitions live in BADGES below
+export const userBadges = pgTable("user_badges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  badgeId: text("badge_id").notNull(),
+  taskId: varchar("task_id").references(() => tasks.id), // Approval that earned the badge
+  awardedAt: timestamp("awarded_at").defaultNow().notNull(),
+}, (table) => [
+  unique("user_badges_user_badge_unique").on(table.userId, table.badgeId),
+]);
+
+// Deadline reminders already sent - one row per task and reminder, so a
+// restart or a second server instance never sends the same one twice
+export const taskReminders = pgTable("task_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  reminder: taskReminderEnum("reminder").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => [
+  unique("task_reminders_task_reminder_unique").on(table.taskId, table.reminder),
+]);
+
+// Seasons - time-boxed contribution drives ranked separately from lifetime points
+export const seasons = pgTable("seasons", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  closedBy: varchar("closed_by").references(() => users.id),
+  closedAt: timestamp("closed_at"), // Standings are frozen once set
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Final rankings archived when a season is closed
+export const seasonStandings = pgTable("season_standings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seasonId: varchar("season_id").references(() => seasons.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  rank: integer("rank").notNull(),
+  points: integer("points").notNull(),
+}, (table) => [
+  unique("season_standings_season_user_unique").on(table.seasonId, table.userId),
+]);
+
+// Notification inbox - every notification is stored before it is pushed over the WebSocket
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  type: text("type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  data: jsonb("data").$type<Record<string, unknown>>(), // Event-specific fields such as taskId
+  inbox: boolean("inbox").notNull().default(true), // False for toast-only notifications, kept for replay
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notifications_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+// Per-user notification channels by event type - event types without a row
+// fall back to the admin defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  eventType: text("event_type").notNull(),
+  toast: boolean("toast").notNull(),
+  inbox: boolean("inbox").notNull(),
+  email: boolean("email").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("notification_preferences_user_event_unique").on(table.userId, table.eventType),
+]);
+
+// Admin-chosen channels, copied to every new account when it registers
+export const notificationDefaults = pgTable("notification_defaults", {
+  eventType: text("event_type").primaryKey(),
+  toast: boolean("toast").notNull(),
+  inbox: boolean("inbox").notNull(),
+  email: boolean("email").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Outgoing email - rows are retried with backoff until sent or out of attempts
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  status: emailStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Pending email confirmations - only a hash of the emailed token is stored
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  email: text("email").notNull(), // The address being confirmed
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Outstanding password reset links - only a hash of the token is stored, and
+// a user's earlier links are deleted when a new one is issued
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  channel: passwordResetChannelEnum("channel").notNull(), // Emailed to the user, or handed to an admin
+  createdBy: varchar("created_by").references(() => users.id), // Admin who generated a link
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Authenticator app secrets, kept out of the users table so they never leave
+// the server with a user. A row exists from setup; two-factor is only on once
+// users.twoFactorEnabledAt is set.
+export const totpCredentials = pgTable("totp_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code, so it can't be replayed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use codes for signing in without the authenticator app - only a hash
+// of each code is stored
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("recovery_codes_user_idx").on(table.userId),
+]);
+
+// Single-use sign-up links that grant a role - only a hash of the token is stored
+export const invitations = pgTable("invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tokenHash: text("token_hash").notNull().unique(),
+  role: userRoleEnum("role").notNull(),
+  note: text("note"), // Who the invite is for, shown in the invite list
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: varchar("used_by").references(() => users.id),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Admin-configured endpoints that receive signed task lifecycle events
+export const webhooks = pgTable("webhooks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: text("events").array().notNull(), // Subscribed WEBHOOK_EVENTS
+  secret: text("secret").notNull(), // HMAC signing key, only shown to admins on creation or rotation
+  active: boolean("active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per event per endpoint - doubles as the retry queue and the delivery log
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: varchar("webhook_id").references(() => webhooks.id, { onDelete: "cascade" }).notNull(),
+  event: text("event").notNull(),
+  payload: jsonb("payload").$type<WebhookPayload>().notNull(),
+  status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  responseStatus: integer("response_status"), // HTTP status of the latest attempt
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("webhook_deliveries_webhook_created_idx").on(table.webhookId, table.createdAt),
+  index("webhook_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Slack/Discord incoming webhook URLs that receive formatted chat messages
+export const chatIntegrations = pgTable("chat_integrations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  platform: chatPlatformEnum("platform").notNull(),
+  url: text("url").notNull(),
+  events: text("events").array().notNull(), // Subscribed CHAT_EVENTS
+  active: boolean("active").notNull().default(true),
+  lastPostedAt: timestamp("last_posted_at"),
+  lastError: text("last_error"), // Cleared by the next successful post
+  leaderboardPostedOn: text("leaderboard_posted_on"), // yyyy-MM-dd of the last daily snapshot
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Append-only record of privileged actions - rows are never updated or deleted
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id").references(() => users.id), // Null for anonymous actions such as failed logins
+  action: text("action").notNull(), // One of AUDIT_ACTIONS
+  targetType: text("target_type"),
+  targetId: varchar("target_id"),
+  before: jsonb("before"), // Only the fields that changed
+  after: jsonb("after"),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_events_created_at_idx").on(table.createdAt),
+  index("audit_events_actor_created_idx").on(table.actorId, table.createdAt),
+  index("audit_events_action_created_idx").on(table.action, table.createdAt),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   submittedTasks: many(tasks, { relationName: "submittedTasks" }),
   assignedTasks: many(tasks, { relationName: "assignedTasks" }),
   createdTasks: many(tasks, { relationName: "createdTasks" }),
   reviewedTasks: many(tasks, { relationName: "reviewedTasks" }),
+  pointTransactions: many(pointTransactions, { relationName: "pointTransactions" }),
 }));
 
 export const tasksRelations = relations(tasks, ({ one }) => ({
@@ -70,19 +374,110 @@ export const tasksRelations = relations(tasks, ({ one }) => ({
   }),
 }));
 
+export const pointTransactionsRelations = relations(pointTransactions, ({ one }) => ({
+  user: one(users, {
+    fields: [pointTransactions.userId],
+    references: [users.id],
+    relationName: "pointTransactions",
+  }),
+  task: one(tasks, {
+    fields: [pointTransactions.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  lead: one(users, {
+    fields: [teams.leadId],
+    references: [users.id],
+  }),
+  members: many(teamMembers),
+}));
+
+export const teamMembersRelations = relations(teamMembers, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamMembers.teamId],
+    references: [teams.id],
+  }),
+  user: one(users, {
+    fields: [teamMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const seasonStandingsRelations = relations(seasonStandings, ({ one }) => ({
+  season: one(seasons, {
+    fields: [seasonStandings.seasonId],
+    references: [seasons.id],
+  }),
+  user: one(users, {
+    fields: [seasonStandings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const redemptionsRelations = relations(redemptions, ({ one }) => ({
+  reward: one(rewards, {
+    fields: [redemptions.rewardId],
+    references: [rewards.id],
+  }),
+  user: one(users, {
+    fields: [redemptions.userId],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
-  role: true,
-}).extend({
-  role: z.enum(["user", "admin"]).optional(),
 });
 
-export const insertAdminUserSchema = insertUserSchema.extend({
-  adminCode: z.string().optional(),
+const newPasswordSchema = z.string().min(8, "Use at least 8 characters");
+
+// New accounts, from sign-up or an invitation, follow the same password rule
+// as changes and resets. Logging in keeps insertUserSchema so older, shorter
+// passwords still work.
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(1, "Username is required"),
+  password: newPasswordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: newPasswordSchema,
+});
+
+export const requestPasswordResetSchema = z.object({
+  username: z.string().trim().min(1),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: newPasswordSchema,
+});
+
+// Confirms enrollment - only a code from the authenticator app will do
+export const totpCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your app"),
 });
 
+// Sign-in and changes to two-factor accept an app code or a recovery code
+export const twoFactorChallengeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code"),
+});
+
+export const insertInvitationSchema = z.object({
+  role: z.enum(userRoleEnum.enumValues),
+  note: z.string().trim().max(200).optional(),
+  expiresInDays: z.coerce.number().int().min(1).max(30).default(7),
+});
+
+// Upper bound for the points a single task can be worth
+export const MAX_TASK_POINTS = 200;
+
+const taskPointsSchema = z.number().int().min(0, "Points cannot be negative").max(MAX_TASK_POINTS, `A task is worth at most ${MAX_TASK_POINTS} points`);
+
 export const insertTaskSchema = createInsertSchema(tasks).pick({
   title: true,
   description: true,
@@ -91,15 +486,23 @@ export const insertTaskSchema = createInsertSchema(tasks).pick({
   proofFile: z.string().optional(),
 });
 
+// Either assignedTo or teamId must be set - checked in the route
 export const assignTaskSchema = createInsertSchema(tasks).pick({
   title: true,
   description: true,
   type: true,
   points: true,
   assignedTo: true,
+  teamId: true,
   deadline: true,
+  latePolicy: true,
+  latePenaltyPercent: true,
 }).extend({
+  assignedTo: z.string().optional(),
+  teamId: z.string().optional(),
+  points: taskPointsSchema,
   deadline: z.string().transform(str => new Date(str)),
+  latePenaltyPercent: z.number().int().min(0, "Penalty cannot be negative").max(100, "Penalty cannot exceed 100%").optional(),
 });
 
 export const updateTaskSchema = createInsertSchema(tasks).pick({
@@ -108,20 +511,248 @@ export const updateTaskSchema = createInsertSchema(tasks).pick({
   rejectionReason: true,
 }).extend({
   status: z.enum(["approved", "rejected", "in_progress", "completed", "assigned"]),
+  points: taskPointsSchema.optional(), // Approvals default to the task's own points
+  version: z.number().int(),
 });
 
 export const completeTaskSchema = z.object({
   proofFile: z.string().optional(),
 });
 
+export const insertPointTransactionSchema = createInsertSchema(pointTransactions).pick({
+  userId: true,
+  delta: true,
+  reason: true,
+  taskId: true,
+  actorId: true,
+  note: true,
+});
+
+export const pointAdjustmentSchema = z.object({
+  delta: z.number().int().refine(value => value !== 0, "Adjustment cannot be zero"),
+  note: z.string().min(1, "A note is required for manual adjustments"),
+});
+
+export const insertRewardSchema = createInsertSchema(rewards).pick({
+  name: true,
+  description: true,
+  cost: true,
+  stock: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  cost: z.number().int().positive("Cost must be positive"),
+  stock: z.number().int().min(0, "Stock cannot be negative"),
+});
+
+export const updateRewardSchema = insertRewardSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+export const insertTeamSchema = createInsertSchema(teams).pick({
+  name: true,
+  description: true,
+  leadId: true,
+}).extend({
+  name: z.string().min(1, "Team name is required"),
+  description: z.string().optional(),
+  leadId: z.string().optional(),
+});
+
+export const updateTeamSchema = insertTeamSchema.partial();
+
+export const teamMemberSchema = z.object({
+  userId: z.string().min(1),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoleEnum.enumValues),
+});
+
+export const leaderboardQuerySchema = z.object({
+  period: z.enum(["week", "month", "season", "all"]).default("all"),
+  from: z.coerce.date().optional(), // A from/to range overrides the period
+  to: z.coerce.date().optional(),
+});
+
+export const insertSeasonSchema = createInsertSchema(seasons).pick({
+  name: true,
+  startsAt: true,
+  endsAt: true,
+}).extend({
+  name: z.string().min(1, "Season name is required"),
+  startsAt: z.string().transform(str => new Date(str)),
+  endsAt: z.string().transform(str => new Date(str)),
+});
+
+export const reviewRedemptionSchema = z.object({
+  status: z.enum(["fulfilled", "refused"]),
+  note: z.string().optional(),
+});
+
+export const updateEmailSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+});
+
+export const notificationPreferenceSchema = z.object({
+  eventType: notificationEventTypeSchema,
+  toast: z.boolean(),
+  inbox: z.boolean(),
+  email: z.boolean(),
+});
+
+export const updateNotificationPreferencesSchema = z.array(notificationPreferenceSchema);
+
+export const WEBHOOK_EVENTS = ["task.submitted", "task.assigned", "task.completed", "task.approved", "task.rejected"] as const;
+
+export const insertWebhookSchema = createInsertSchema(webhooks).pick({
+  url: true,
+  description: true,
+  events: true,
+}).extend({
+  url: z.string().url("Enter a valid URL").refine(url => /^https?:\/\//.test(url), "URL must use http or https"),
+  description: z.string().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Choose at least one event"),
+});
+
+export const updateWebhookSchema = insertWebhookSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+export const CHAT_EVENTS = ["task.submitted", "task.approved", "leaderboard.daily"] as const;
+
+export const insertChatIntegrationSchema = createInsertSchema(chatIntegrations).pick({
+  name: true,
+  platform: true,
+  url: true,
+  events: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  url: z.string().url("Enter a valid URL").refine(url => url.startsWith("https://"), "URL must use https"),
+  events: z.array(z.enum(CHAT_EVENTS)).min(1, "Choose at least one event"),
+});
+
+export const updateChatIntegrationSchema = insertChatIntegrationSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+export const AUDIT_ACTIONS = [
+  "auth.registered",
+  "auth.logged_in",
+  "auth.login_failed",
+  "auth.logged_out",
+  "auth.password_changed",
+  "auth.password_reset_requested",
+  "auth.password_reset",
+  "auth.two_factor_enabled",
+  "auth.two_factor_disabled",
+  "auth.recovery_codes_regenerated",
+  "user.role_changed",
+  "invitation.created",
+  "invitation.revoked",
+  "invitation.accepted",
+  "task.assigned",
+  "task.completed",
+  "task.reviewed",
+  "points.adjusted",
+  "points.reconciled",
+  "reward.created",
+  "reward.updated",
+  "redemption.reviewed",
+  "team.created",
+  "team.updated",
+  "team.member_added",
+  "team.member_removed",
+  "season.created",
+  "season.closed",
+  "webhook.created",
+  "webhook.updated",
+  "webhook.deleted",
+  "webhook.secret_rotated",
+  "chat_integration.created",
+  "chat_integration.updated",
+  "chat_integration.deleted",
+  "notification_defaults.updated",
+  "audit.exported",
+] as const;
+
+export const auditQuerySchema = z.object({
+  actorId: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UpdateUserRole = z.infer<typeof updateUserRoleSchema>;
+export type UserSummary = Pick<User, "id" | "username" | "role" | "totalPoints">; // What staff user lists return
+export type Invitation = Omit<typeof invitations.$inferSelect, "tokenHash">; // What the API returns
+export type InvitationWithUsers = Invitation & { createdByUsername: string; usedByUsername: string | null };
+export type InvitationStatus = "pending" | "used" | "revoked" | "expired";
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type PasswordResetChannel = typeof passwordResetChannelEnum.enumValues[number];
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+export type TotpCode = z.infer<typeof totpCodeSchema>;
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+export type TotpCredential = typeof totpCredentials.$inferSelect;
+export type TwoFactorStatus = { enabled: boolean; required: boolean; recoveryCodesRemaining: number };
+export type TwoFactorSetup = { secret: string; otpauthUrl: string; qrCode: string }; // qrCode is a data: URL
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type AssignTask = z.infer<typeof assignTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
 export type UpdateTask = z.infer<typeof updateTaskSchema>;
 export type CompleteTask = z.infer<typeof completeTaskSchema>;
+export type PointTransaction = typeof pointTransactions.$inferSelect;
+export type InsertPointTransaction = z.infer<typeof insertPointTransactionSchema>;
+export type PointAdjustment = z.infer<typeof pointAdjustmentSchema>;
+export type Reward = typeof rewards.$inferSelect;
+export type InsertReward = z.infer<typeof insertRewardSchema>;
+export type UpdateReward = z.infer<typeof updateRewardSchema>;
+export type Redemption = typeof redemptions.$inferSelect;
+export type RedemptionWithDetails = Redemption & { rewardName: string; username: string };
+export type ReviewRedemption = z.infer<typeof reviewRedemptionSchema>;
+export type UserBadge = typeof userBadges.$inferSelect;
+export type TaskReminder = typeof taskReminderEnum.enumValues[number];
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+export type LeaderboardRange = { from?: Date; to?: Date };
+export type RankedUser = Pick<User, "id" | "username" | "role" | "createdAt"> & { points: number }; // Points earned within the ranked window
+export type LeaderboardEntry = RankedUser & { badges: string[] };
+export type Season = typeof seasons.$inferSelect;
+export type InsertSeason = z.infer<typeof insertSeasonSchema>;
+export type SeasonStanding = typeof seasonStandings.$inferSelect & { username: string };
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationInbox = { notifications: Notification[]; unreadCount: number };
+export type NotificationPreference = z.infer<typeof notificationPreferenceSchema>;
+export type Team = typeof teams.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type UpdateTeam = z.infer<typeof updateTeamSchema>;
+export type TeamMember = typeof teamMembers.$inferSelect;
+export type TeamMemberSummary = Pick<User, "id" | "username" | "totalPoints">;
+export type TeamWithMembers = Team & { members: TeamMemberSummary[] };
+export type TeamStanding = Pick<Team, "id" | "name" | "leadId"> & { memberCount: number; totalPoints: number };
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookPayload = { id: string; event: WebhookEvent | "ping"; createdAt: string; data: Record<string, unknown> };
+export type Webhook = Omit<typeof webhooks.$inferSelect, "secret">; // What the API returns
+export type WebhookWithSecret = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type ChatEvent = typeof CHAT_EVENTS[number];
+export type ChatIntegration = typeof chatIntegrations.$inferSelect;
+export type InsertChatIntegration = z.infer<typeof insertChatIntegrationSchema>;
+export type UpdateChatIntegration = z.infer<typeof updateChatIntegrationSchema>;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditEventWithActor = AuditEvent & { actorUsername: string | null };
+export type InsertAuditEvent = Omit<typeof auditEvents.$inferInsert, "id" | "createdAt"> & { action: AuditAction };
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type UpdateEmail = z.infer<typeof updateEmailSchema>;
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = Pick<typeof emailOutbox.$inferInsert, "userId" | "to" | "subject" | "text" | "html">;
 
 // Task type point mappings
 export const TASK_POINTS: Record<string, number> = {
@@ -131,3 +762,45 @@ export const TASK_POINTS: Record<string, number> = {
   community_help: 20,
   documentation: 40,
 };
+
+// Points actually awarded for a task - late completions lose the task's
+// penalty percentage, rounded in the user's favour
+export function applyLatePenalty(task: Pick<Task, "completedLate" | "latePenaltyPercent">, points: number) {
+  if (!task.completedLate || points <= 0) return points;
+  return points - Math.floor(points * task.latePenaltyPercent / 100);
+}
+
+// Strips a user row down to what staff screens show - never the password
+// hash, email address or two-factor state
+export function toUserSummary({ id, username, role, totalPoints }: User): UserSummary {
+  return { id, username, role, totalPoints };
+}
+
+export function invitationStatus(invitation: Pick<Invitation, "usedAt" | "revokedAt" | "expiresAt">, now = new Date()): InvitationStatus {
+  if (invitation.usedAt) return "used";
+  if (invitation.revokedAt) return "revoked";
+  return new Date(invitation.expiresAt) <= now ? "expired" : "pending";
+}
+
+// Badge definitions - evaluated whenever a task is approved
+export type BadgeRule =
+  | { kind: "approved_tasks"; count: number; taskType?: Task["type"] }
+  | { kind: "earned_points"; points: number };
+
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string; // Font Awesome icon class
+  rule: BadgeRule;
+}
+
+export const BADGES: BadgeDefinition[] = [
+  { id: "first_task", name: "First Steps", description: "Had a first task approved", icon: "fa-shoe-prints", rule: { kind: "approved_tasks", count: 1 } },
+  { id: "first_bug_report", name: "Bug Hunter", description: "Had a first bug report approved", icon: "fa-bug", rule: { kind: "approved_tasks", count: 1, taskType: "bug_report" } },
+  { id: "documentation_10", name: "Scribe", description: "Had 10 documentation tasks approved", icon: "fa-book", rule: { kind: "approved_tasks", count: 10, taskType: "documentation" } },
+  { id: "content_10", name: "Storyteller", description: "Had 10 content creation tasks approved", icon: "fa-pen-nib", rule: { kind: "approved_tasks", count: 10, taskType: "content_creation" } },
+  { id: "community_10", name: "Helping Hand", description: "Had 10 community help tasks approved", icon: "fa-hands-helping", rule: { kind: "approved_tasks", count: 10, taskType: "community_help" } },
+  { id: "tasks_25", name: "Workhorse", description: "Had 25 tasks approved", icon: "fa-dumbbell", rule: { kind: "approved_tasks", count: 25 } },
+  { id: "points_1000", name: "Point Master", description: "Earned 1000 points from approved tasks", icon: "fa-gem", rule: { kind: "earned_points", points: 1000 } },
+];
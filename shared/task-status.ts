@@ -0,0 +1,29 @@
+import type { Task } from "./schema";
+
+export type TaskStatus = Task["status"];
+
+// Every status change a task may go through - routes and storage both check
+// against this table. Approved, rejected and expired tasks are final.
+export const TASK_TRANSITIONS: Record<TaskStatus, readonly TaskStatus[]> = {
+  pending: ["approved", "rejected"],
+  assigned: ["in_progress", "completed", "overdue", "expired", "approved", "rejected"],
+  in_progress: ["completed", "overdue", "expired", "approved", "rejected"],
+  overdue: ["completed", "approved", "rejected"],
+  completed: ["approved", "rejected"],
+  approved: [],
+  rejected: [],
+  expired: [],
+};
+
+export function canTransition(from: TaskStatus, to: TaskStatus) {
+  return TASK_TRANSITIONS[from].includes(to);
+}
+
+// Statuses a task can be in to move to `to`
+export function statusesAllowing(to: TaskStatus): TaskStatus[] {
+  return (Object.keys(TASK_TRANSITIONS) as TaskStatus[]).filter(from => canTransition(from, to));
+}
+
+export function transitionError(from: TaskStatus, to: TaskStatus) {
+  return `Task is ${from.replace(/_/g, " ")} and can't be moved to ${to.replace(/_/g, " ")}`;
+}